@@ -0,0 +1,121 @@
+import { TSESLint } from '@typescript-eslint/utils';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+  Baseline,
+  BASELINE_VERSION,
+  getBaselineFileKey,
+  RecordedReport,
+  startBaselineRecording,
+  stopBaselineRecording,
+} from './utils';
+
+export type { Baseline } from './utils';
+
+/**
+ * The part of the ESLint API used to lint files while generating a baseline
+ */
+export interface BaselineLinter {
+  lintFiles(patterns: string[]): Promise<TSESLint.FlatESLint.LintResult[]>;
+}
+
+export interface GenerateBaselineOptions {
+  /** Working directory used to resolve the patterns, the ESLint configuration and the output file */
+  cwd?: string;
+  /** Linter to use instead of one loading the project's ESLint configuration from the working directory */
+  eslint?: BaselineLinter;
+  /** Path of the baseline file to write */
+  output: string;
+  /** Files, directories or globs to lint */
+  patterns: string[];
+}
+
+const PLUGIN_PREFIX = 'react-snob/';
+
+const FLAT_CONFIG_FILES = ['eslint.config.js', 'eslint.config.mjs', 'eslint.config.cjs', 'eslint.config.ts'];
+
+/**
+ * Creates a baseline from lint results and the reports recorded while linting, counting every react-snob
+ * violation by file and fingerprint. Reports without a lint message (e.g., disabled by a comment) are not counted.
+ */
+export function createBaseline(
+  results: TSESLint.FlatESLint.LintResult[],
+  baselinePath: string,
+  recorded: Map<string, RecordedReport[]>
+): Baseline {
+  const files: Baseline['files'] = {};
+
+  for (const result of [...results].sort((a, b) => a.filePath.localeCompare(b.filePath))) {
+    const reports = [...(recorded.get(result.filePath) ?? [])];
+    const fingerprints: Record<string, number> = {};
+
+    for (const message of result.messages) {
+      if (!message.ruleId?.startsWith(PLUGIN_PREFIX)) continue;
+
+      const ruleName = message.ruleId.slice(PLUGIN_PREFIX.length);
+      const index = reports.findIndex(
+        (report) => report.ruleName === ruleName && report.line === message.line && report.column === message.column
+      );
+      if (index === -1) continue;
+
+      const [{ fingerprint }] = reports.splice(index, 1);
+      fingerprints[fingerprint] = (fingerprints[fingerprint] ?? 0) + 1;
+    }
+
+    if (Object.keys(fingerprints).length === 0) continue;
+
+    files[getBaselineFileKey(baselinePath, result.filePath)] = Object.fromEntries(
+      Object.entries(fingerprints).sort(([a], [b]) => a.localeCompare(b))
+    );
+  }
+
+  return { files, version: BASELINE_VERSION };
+}
+
+/**
+ * Writes a baseline file as formatted JSON so that changes are easy to review
+ */
+export function writeBaseline(baselinePath: string, baseline: Baseline): void {
+  fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+  fs.writeFileSync(baselinePath, `${JSON.stringify(baseline, null, 2)}\n`);
+}
+
+/**
+ * Creates an ESLint instance for the project in the working directory, using flat config when ESLint would
+ */
+function createProjectLinter(cwd: string): BaselineLinter {
+  const useFlatConfig =
+    process.env.ESLINT_USE_FLAT_CONFIG === 'true' ||
+    (process.env.ESLINT_USE_FLAT_CONFIG !== 'false' &&
+      FLAT_CONFIG_FILES.some((file) => fs.existsSync(path.join(cwd, file))));
+
+  return useFlatConfig ? new TSESLint.FlatESLint({ cwd }) : new TSESLint.LegacyESLint({ cwd });
+}
+
+/**
+ * Lints the given files with the project's ESLint configuration and records the current react-snob
+ * violations in a baseline file. The existing baseline is ignored while recording, so that every
+ * violation is recorded.
+ */
+export async function generateBaseline({
+  cwd = process.cwd(),
+  eslint = createProjectLinter(cwd),
+  output,
+  patterns,
+}: GenerateBaselineOptions): Promise<Baseline> {
+  const baselinePath = path.resolve(cwd, output);
+
+  const recorded = startBaselineRecording();
+  let results: TSESLint.FlatESLint.LintResult[];
+  try {
+    results = await eslint.lintFiles(patterns);
+  } finally {
+    stopBaselineRecording();
+  }
+
+  const baseline = createBaseline(results, baselinePath, recorded);
+  writeBaseline(baselinePath, baseline);
+
+  return baseline;
+}
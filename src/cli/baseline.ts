@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+import { generateBaseline } from '../baseline';
+
+const DEFAULT_OUTPUT = '.react-snob-baseline.json';
+
+const USAGE = `Usage: react-snob-baseline [--output <file>] [patterns...]
+
+Records the current react-snob violations so that only new ones are reported.
+Point settings['react-snob'].baseline at the output file to enable suppression.
+
+Options:
+  -o, --output <file>  Baseline file to write (default: ${DEFAULT_OUTPUT})
+  -h, --help           Show this help`;
+
+/**
+ * Runs the react-snob-baseline command with the given arguments, returning the exit code
+ */
+export async function runBaselineCli(args: string[]): Promise<number> {
+  let output = DEFAULT_OUTPUT;
+  const patterns: string[] = [];
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+
+    if (arg === '-h' || arg === '--help') {
+      console.log(USAGE);
+      return 0;
+    }
+
+    if (arg === '-o' || arg === '--output') {
+      const value = args[++index];
+      if (!value) {
+        console.error(`Missing value for ${arg}\n\n${USAGE}`);
+        return 2;
+      }
+      output = value;
+    } else {
+      patterns.push(arg);
+    }
+  }
+
+  const baseline = await generateBaseline({ output, patterns: patterns.length > 0 ? patterns : ['.'] });
+  const violationCount = Object.values(baseline.files)
+    .flatMap((fingerprints) => Object.values(fingerprints))
+    .reduce((total, count) => total + count, 0);
+
+  console.log(`Recorded ${violationCount} violation(s) in ${Object.keys(baseline.files).length} file(s) to ${output}`);
+  return 0;
+}
+
+if (require.main === module) {
+  runBaselineCli(process.argv.slice(2)).then(
+    (exitCode) => {
+      process.exitCode = exitCode;
+    },
+    (error: unknown) => {
+      console.error(error instanceof Error ? error.message : error);
+      process.exitCode = 2;
+    }
+  );
+}
@@ -52,9 +52,61 @@ export const strict = {
   },
 };
 
+export const naming = {
+  plugins: {
+    'react-snob': plugin,
+  },
+  rules: {
+    'react-snob/component-prop-interface-naming': 'warn',
+    'react-snob/consistent-event-handler-naming': 'warn',
+    'react-snob/require-boolean-prefix-is': 'warn',
+    'react-snob/require-derived-conditional-prefix': 'warn',
+  },
+};
+
+export const jsx = {
+  plugins: {
+    'react-snob': plugin,
+  },
+  rules: {
+    'react-snob/no-complex-jsx-conditions': 'warn',
+    'react-snob/no-inline-styles': 'warn',
+    'react-snob/require-jsx-string-braces': 'warn',
+  },
+};
+
+// Every rule in the registry as an error, so new rules are included without updating the config
+export const all = {
+  plugins: {
+    'react-snob': plugin,
+  },
+  rules: Object.fromEntries(Object.keys(plugin.rules).map((name) => [`react-snob/${name}`, 'error'])),
+};
+
+// Recommended rules with their type-aware options enabled, backed by the TypeScript project service
+export const recommendedTypeChecked = {
+  languageOptions: {
+    parserOptions: {
+      projectService: true,
+    },
+  },
+  plugins: {
+    'react-snob': plugin,
+  },
+  rules: {
+    ...recommended.rules,
+    'react-snob/component-prop-interface-naming': ['warn', { resolveImportedTypes: true }],
+    'react-snob/require-boolean-prefix-is': ['warn', { useTypeInformation: true }],
+  },
+};
+
 export default {
   configs: {
+    all,
+    jsx,
+    naming,
     recommended,
+    'recommended-type-checked': recommendedTypeChecked,
     strict,
   },
   plugin,
@@ -0,0 +1,18 @@
+import { recommended, strict } from './flat';
+
+/**
+ * Recommended config for ESLint 8 `.eslintrc` files, where plugins are referenced by name:
+ * `"extends": ["plugin:react-snob/recommended-legacy"]`
+ */
+export const recommendedLegacy = {
+  plugins: ['react-snob'],
+  rules: recommended.rules,
+};
+
+/**
+ * Strict config for ESLint 8 `.eslintrc` files: `"extends": ["plugin:react-snob/strict-legacy"]`
+ */
+export const strictLegacy = {
+  plugins: ['react-snob'],
+  rules: strict.rules,
+};
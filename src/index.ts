@@ -1,3 +1,13 @@
 import flatConfig from './configs/flat';
+import { recommendedLegacy, strictLegacy } from './configs/legacy';
 
-export = flatConfig;
+// Flat configs plus the `.eslintrc` configs and top-level rules that ESLint 8 expects from a plugin
+export = {
+  ...flatConfig,
+  configs: {
+    ...flatConfig.configs,
+    'recommended-legacy': recommendedLegacy,
+    'strict-legacy': strictLegacy,
+  },
+  rules: flatConfig.plugin.rules,
+};
@@ -1,115 +1,568 @@
-import { TSESTree } from '@typescript-eslint/utils';
+import { ASTUtils, TSESLint, TSESTree } from '@typescript-eslint/utils';
+import * as path from 'path';
 
 import {
   createRule,
+  createRenameFix,
   extractComponentName,
+  findDeclaredVariable,
   isComponentFunction,
-  findInterfaceNamesInTypeReference,
+  findTypeReferencesInTypeReference,
+  getCalleeName,
+  getComponentNameFromFilename,
   getFullTypeSignature,
+  getPluginSettings,
+  getTypeInformation,
+  getTypeReferenceBaseName,
+  isComponentWrapperCall,
+  matchesTypeNamePattern,
+  resolveTypeAlias,
+  skipTypeAssertions,
+  createIgnoreMatcher,
 } from '../utils';
 
-export const componentPropInterfaceNaming = createRule({
-  create(context) {
-    function checkComponentPropsInterface(
-      componentNode: TSESTree.FunctionDeclaration | TSESTree.VariableDeclarator,
-      componentName: string
-    ): void {
-      // Generate possible valid interface names
-      const fullExpectedName = `${componentName}Props`;
-      let baseExpectedName = fullExpectedName;
+type CompositeTypePolicy = 'allow' | 'require-named' | 'require-props-member';
+
+type GenericDeclaration =
+  | TSESTree.ArrowFunctionExpression
+  | TSESTree.ClassDeclaration
+  | TSESTree.ClassExpression
+  | TSESTree.FunctionDeclaration
+  | TSESTree.FunctionExpression
+  | TSESTree.TSTypeAliasDeclaration;
+
+const GENERIC_DECLARATION_TYPES = new Set<string>([
+  'ArrowFunctionExpression',
+  'ClassDeclaration',
+  'ClassExpression',
+  'FunctionDeclaration',
+  'FunctionExpression',
+  'TSTypeAliasDeclaration',
+]);
+
+export interface RuleOptions {
+  checkState: boolean;
+  ignore?: string[];
+  ignoredTypes: string[];
+  inlineTypes: 'allow' | 'require-named';
+  intersectionTypes: CompositeTypePolicy;
+  namingTemplate: string;
+  propsSuffixes: string[];
+  resolveImportedTypes: boolean;
+  stateNamingTemplate: string;
+  unionTypes: CompositeTypePolicy;
+  utilityTypes: 'allow' | 'require-named';
+}
+
+const DEFAULT_OPTIONS: RuleOptions = {
+  checkState: false,
+  ignore: [],
+  ignoredTypes: [],
+  inlineTypes: 'allow',
+  intersectionTypes: 'allow',
+  namingTemplate: '{Component}Props',
+  propsSuffixes: ['Props', 'Options', 'Config', 'Settings'],
+  resolveImportedTypes: false,
+  stateNamingTemplate: '{Component}State',
+  unionTypes: 'allow',
+  utilityTypes: 'allow',
+};
+
+// Built-in utility types that compose props from other types: Omit<BaseProps, 'x'>
+const UTILITY_TYPES = ['Exclude', 'Extract', 'NonNullable', 'Omit', 'Partial', 'Pick', 'Readonly', 'Required'];
+
+// Base classes of class components: class Foo extends React.Component<FooProps, FooState>
+const CLASS_COMPONENT_BASES = ['Component', 'PureComponent', 'React.Component', 'React.PureComponent'];
+
+type ComponentNode =
+  | TSESTree.ArrowFunctionExpression
+  | TSESTree.ClassDeclaration
+  | TSESTree.FunctionDeclaration
+  | TSESTree.VariableDeclarator;
+
+type PropsFunctionNode = TSESTree.ArrowFunctionExpression | TSESTree.FunctionDeclaration | TSESTree.FunctionExpression;
+
+/**
+ * Checks if a callee is forwardRef or a forwardRef helper for generic components (e.g., fixedForwardRef)
+ */
+function isForwardRefCallee(calleeName: string | null): boolean {
+  return !!calleeName && /forwardRef$/i.test(calleeName.split('.').pop() ?? '');
+}
+
+/**
+ * Checks if a node lies within the range of another node
+ */
+function isWithinNode(node: TSESTree.Node, container: TSESTree.Node): boolean {
+  return node.range[0] >= container.range[0] && node.range[1] <= container.range[1];
+}
+
+export const componentPropInterfaceNaming = createRule<
+  [RuleOptions],
+  | 'extractPropsType'
+  | 'incorrectImportedPropsInterfaceName'
+  | 'incorrectPropsInterfaceName'
+  | 'incorrectStateInterfaceName'
+  | 'missingPropsTypeMember'
+  | 'renamePropsInterface'
+  | 'renameStateInterface'
+  | 'requireNamedPropsType'
+>({
+  create(context, [options = DEFAULT_OPTIONS]) {
+    const {
+      checkState,
+      ignore,
+      ignoredTypes,
+      inlineTypes,
+      intersectionTypes,
+      namingTemplate,
+      propsSuffixes,
+      resolveImportedTypes,
+      stateNamingTemplate,
+      unionTypes,
+      utilityTypes,
+    } = options;
+    const isIgnoredName = createIgnoreMatcher(ignore);
+    const { componentWrappers } = getPluginSettings(context);
+    const typeInformation = resolveImportedTypes ? getTypeInformation(context) : null;
+
+    /**
+     * Builds the expected props (or state) type name for a component from the naming template
+     */
+    function formatExpectedName(componentName: string, template: string = namingTemplate): string {
+      return template.replace('{Component}', componentName);
+    }
+
+    /**
+     * Gets the accepted type names for a component: the full name, and for components ending in "Component"
+     * or "FunctionComponent" also the name without that suffix
+     */
+    function getExpectedNames(componentName: string, template: string = namingTemplate): [string, string] {
+      const fullExpectedName = formatExpectedName(componentName, template);
 
-      // If the component name ends with "Component" or "FunctionComponent",
-      // also accept interface without those suffixes
       if (componentName.endsWith('Component')) {
         const baseName = componentName.replace(/(?:Function)?Component$/, '');
-        baseExpectedName = `${baseName}Props`;
-      }
-
-      let actualInterfaceName: string | null = null;
-
-      // Handle function declarations
-      if (componentNode.type === 'FunctionDeclaration') {
-        const firstParam = componentNode.params[0];
-        if (firstParam && firstParam.type === 'ObjectPattern' && firstParam.typeAnnotation) {
-          const typeAnnotation = firstParam.typeAnnotation.typeAnnotation;
-          if (typeAnnotation.type === 'TSTypeReference') {
-            if (typeAnnotation.typeName.type === 'Identifier') {
-              actualInterfaceName = typeAnnotation.typeName.name;
-            } else if (typeAnnotation.typeName.type === 'TSQualifiedName') {
-              // Handle React.ComponentProps<'div'>, etc. - use full signature
-              actualInterfaceName = getFullTypeSignature(typeAnnotation);
-            }
-          }
+        return [fullExpectedName, formatExpectedName(baseName, template)];
+      }
+
+      return [fullExpectedName, fullExpectedName];
+    }
+
+    /**
+     * Checks if a type is excluded through ignoredTypes, by its full signature or its name
+     */
+    function isIgnoredType(signature: string, baseName: string | null): boolean {
+      return ignoredTypes.some(
+        (pattern) =>
+          matchesTypeNamePattern(signature, pattern) || (baseName !== null && matchesTypeNamePattern(baseName, pattern))
+      );
+    }
+
+    /**
+     * Creates a fix that renames a local props interface or type alias and its same-file references.
+     * Returns null for imported, exported, or global types and for types shared with other components.
+     */
+    function createPropsRenameFix(
+      typeReference: TSESTree.TSTypeReference,
+      componentNode: ComponentNode,
+      expectedName: string
+    ): TSESLint.ReportFixFunction | null {
+      // Qualified names like React.ComponentProps<'div'> cannot be renamed locally
+      if (typeReference.typeName.type !== 'Identifier') return null;
+
+      const variable = ASTUtils.findVariable(context.sourceCode.getScope(typeReference), typeReference.typeName);
+      if (!variable || variable.defs.length === 0) return null;
+
+      // Only local interface and type alias declarations that are not exported
+      const isLocalTypeDeclaration = variable.defs.every(
+        (def) =>
+          (def.node.type === 'TSInterfaceDeclaration' || def.node.type === 'TSTypeAliasDeclaration') &&
+          def.node.parent?.type !== 'ExportNamedDeclaration' &&
+          def.node.parent?.type !== 'ExportDefaultDeclaration'
+      );
+      if (!isLocalTypeDeclaration) return null;
+
+      // Types referenced outside this component are shared, so renaming would be misleading
+      const isShared = variable.references.some((reference) => !isWithinNode(reference.identifier, componentNode));
+      if (isShared) return null;
+
+      return createRenameFix(context.sourceCode, variable.identifiers[0], expectedName);
+    }
+
+    /**
+     * Gets the path of a file relative to the linted file, written like an import specifier (e.g., ./types.ts)
+     */
+    function getRelativeFilePath(filename: string): string {
+      const relativePath = path.relative(path.dirname(context.filename), filename).split(path.sep).join('/');
+      return relativePath.startsWith('.') ? relativePath : `./${relativePath}`;
+    }
+
+    /**
+     * Reports a props or state type whose name doesn't match the naming template for the component
+     */
+    function checkTypeName(
+      componentNode: ComponentNode,
+      componentName: string,
+      actualInterfaceName: string | null,
+      actualTypeReference: TSESTree.TSTypeReference | null,
+      kind: 'props' | 'state'
+    ): void {
+      const template = kind === 'props' ? namingTemplate : stateNamingTemplate;
+
+      // Generate possible valid interface names
+      const [fullExpectedName, baseExpectedName] = getExpectedNames(componentName, template);
+
+      // Generic props types are compared without their type arguments: ListProps<T> -> ListProps
+      const actualBaseName = actualTypeReference ? getTypeReferenceBaseName(actualTypeReference) : actualInterfaceName;
+
+      // Components and type names matched by the ignore option (e.g., generated types) are never reported
+      if (isIgnoredName(componentName) || (actualBaseName && isIgnoredName(actualBaseName))) {
+        return;
+      }
+
+      // Report error if interface name doesn't match expected pattern
+      // External types (e.g., React.ComponentProps<*>) that are allowed as props types
+      if (actualInterfaceName && isIgnoredType(actualInterfaceName, actualBaseName)) {
+        return;
+      }
+
+      // Imported props types are followed to their declaration, accepting any name along the import chain
+      const resolvedAlias =
+        typeInformation && kind === 'props' && actualTypeReference?.typeName.type === 'Identifier'
+          ? resolveTypeAlias(typeInformation, actualTypeReference.typeName)
+          : null;
+
+      if (resolvedAlias) {
+        if (resolvedAlias.names.some((name) => name === fullExpectedName || name === baseExpectedName)) return;
+
+        context.report({
+          data: {
+            actual: resolvedAlias.declarationName,
+            component: componentName,
+            expected: fullExpectedName,
+            file: getRelativeFilePath(resolvedAlias.declarationFile),
+          },
+          messageId: 'incorrectImportedPropsInterfaceName',
+          node: componentNode,
+        });
+        return;
+      }
+
+      if (actualInterfaceName && actualBaseName !== fullExpectedName && actualBaseName !== baseExpectedName) {
+        // Always suggest the full component name for consistency in error messages
+        const expectedInterfaceName = fullExpectedName;
+        const renameFix = actualTypeReference
+          ? createPropsRenameFix(actualTypeReference, componentNode, expectedInterfaceName)
+          : null;
+
+        context.report({
+          data: {
+            actual: actualInterfaceName,
+            component: componentName,
+            expected: expectedInterfaceName,
+          },
+          messageId: kind === 'props' ? 'incorrectPropsInterfaceName' : 'incorrectStateInterfaceName',
+          node: componentNode,
+          suggest: renameFix
+            ? [
+                {
+                  data: { actual: actualBaseName, expected: expectedInterfaceName },
+                  fix: renameFix,
+                  messageId: kind === 'props' ? 'renamePropsInterface' : 'renameStateInterface',
+                },
+              ]
+            : null,
+        });
+      }
+    }
+
+    /**
+     * Gets the full signature of a props or state type reference for messages
+     * (e.g., SelectProps<Option, Group>, React.ComponentProps<'div'>)
+     */
+    function getTypeReferenceName(typeReference: TSESTree.TSTypeReference): string | null {
+      if (typeReference.typeName.type === 'Identifier' || typeReference.typeName.type === 'TSQualifiedName') {
+        return getFullTypeSignature(typeReference, context.sourceCode);
+      }
+
+      return null;
+    }
+
+    /**
+     * Resolves a component passed to a wrapper by name to its function in the same file:
+     * function SelectInner<T>(props: SelectProps<T>, ref: Ref<HTMLDivElement>) { ... }; forwardRef(SelectInner)
+     */
+    function resolveFunctionReference(identifier: TSESTree.Identifier): PropsFunctionNode | null {
+      const variable = ASTUtils.findVariable(context.sourceCode.getScope(identifier), identifier);
+      const definition = variable?.defs[0]?.node;
+
+      if (definition?.type === 'FunctionDeclaration') {
+        return definition;
+      }
+
+      if (
+        definition?.type === 'VariableDeclarator' &&
+        (definition.init?.type === 'ArrowFunctionExpression' || definition.init?.type === 'FunctionExpression')
+      ) {
+        return definition.init;
+      }
+
+      return null;
+    }
+
+    /**
+     * Checks if a component function is passed by name to a component wrapper, in which case its props
+     * are checked against the wrapped component (e.g., SelectInner in const Select = forwardRef(SelectInner))
+     */
+    function isWrappedByReference(node: TSESTree.FunctionDeclaration | TSESTree.VariableDeclarator): boolean {
+      const identifier = node.id?.type === 'Identifier' ? node.id : null;
+      if (!identifier) return false;
+
+      const variable = findDeclaredVariable(context.sourceCode, identifier);
+      return !!variable?.references.some(
+        ({ identifier: reference }) =>
+          reference.parent?.type === 'CallExpression' &&
+          reference.parent.arguments[0] === reference &&
+          isComponentWrapperCall(reference.parent, componentWrappers)
+      );
+    }
+
+    /**
+     * Gets the props type of a component function from its first parameter
+     */
+    function getPropsType(functionNode: PropsFunctionNode): TSESTree.TypeNode | null {
+      const firstParam = functionNode.params[0];
+      if (firstParam?.type !== 'ObjectPattern') return null;
+
+      return firstParam.typeAnnotation?.typeAnnotation ?? null;
+    }
+
+    /**
+     * Checks if a type reference is a built-in utility type such as Omit<BaseProps, 'x'>
+     */
+    function isUtilityType(typeNode: TSESTree.TypeNode): typeNode is TSESTree.TSTypeReference {
+      return (
+        typeNode.type === 'TSTypeReference' &&
+        typeNode.typeName.type === 'Identifier' &&
+        UTILITY_TYPES.includes(typeNode.typeName.name)
+      );
+    }
+
+    /**
+     * Checks whether a type references a type parameter declared by an enclosing function, class or type alias
+     */
+    function usesEnclosingTypeParameters(typeNode: TSESTree.TypeNode): boolean {
+      for (let ancestor: TSESTree.Node | undefined = typeNode.parent; ancestor; ancestor = ancestor.parent) {
+        if (!GENERIC_DECLARATION_TYPES.has(ancestor.type)) continue;
+
+        const { typeParameters } = ancestor as GenericDeclaration;
+        if (!typeParameters) continue;
+
+        for (const param of typeParameters.params) {
+          const isReferenced = context.sourceCode
+            .getDeclaredVariables(param)
+            .some((variable) =>
+              variable.references.some(
+                ({ identifier }) => identifier.range[0] >= typeNode.range[0] && identifier.range[1] <= typeNode.range[1]
+              )
+            );
+          if (isReferenced) return true;
+        }
+      }
+
+      return false;
+    }
+
+    /**
+     * Creates a fix that moves an inline or composed props type into a named declaration placed before the
+     * component's top-level statement. Returns null when the name is taken or the type uses type parameters
+     * of the component, which would be out of scope in the new declaration.
+     */
+    function createExtractPropsTypeFix(
+      typeNode: TSESTree.TypeNode,
+      componentNode: ComponentNode,
+      expectedName: string
+    ): TSESLint.ReportFixFunction | null {
+      let statement: TSESTree.Node = componentNode;
+      while (statement.parent && statement.parent.type !== 'Program') {
+        statement = statement.parent;
+      }
+      if (!statement.parent) return null;
+
+      if (ASTUtils.findVariable(context.sourceCode.getScope(statement), expectedName)) return null;
+
+      if (usesEnclosingTypeParameters(typeNode)) return null;
+
+      const typeText = context.sourceCode.getText(typeNode);
+      const declaration =
+        typeNode.type === 'TSTypeLiteral'
+          ? `interface ${expectedName} ${typeText}`
+          : `type ${expectedName} = ${typeText};`;
+      const indent = ' '.repeat(statement.loc.start.column);
+      const insertBefore = statement;
+
+      return (fixer) => [
+        fixer.insertTextBefore(insertBefore, `${declaration}\n\n${indent}`),
+        fixer.replaceText(typeNode, expectedName),
+      ];
+    }
+
+    /**
+     * Reports a props type that should be declared as a named type, with a suggestion to extract it
+     */
+    function reportUnnamedPropsType(
+      componentNode: ComponentNode,
+      componentName: string,
+      typeNode: TSESTree.TypeNode,
+      shape: string
+    ): void {
+      const [expectedName] = getExpectedNames(componentName);
+      const extractFix = createExtractPropsTypeFix(typeNode, componentNode, expectedName);
+
+      context.report({
+        data: { component: componentName, expected: expectedName, shape },
+        messageId: 'requireNamedPropsType',
+        node: componentNode,
+        suggest: extractFix
+          ? [{ data: { expected: expectedName }, fix: extractFix, messageId: 'extractPropsType' }]
+          : null,
+      });
+    }
+
+    /**
+     * Checks a component's props type according to its shape: named references are checked against the
+     * naming template, while inline literals, intersections, unions and utility types follow their policies
+     */
+    function checkPropsType(componentNode: ComponentNode, componentName: string, propsType: TSESTree.TypeNode): void {
+      if (isIgnoredName(componentName)) return;
+
+      const typeText = context.sourceCode.getText(propsType).replace(/\s+/g, ' ');
+
+      if (propsType.type === 'TSTypeReference' && !isUtilityType(propsType)) {
+        checkTypeName(componentNode, componentName, getTypeReferenceName(propsType), propsType, 'props');
+        return;
+      }
+
+      if (isUtilityType(propsType)) {
+        if (utilityTypes === 'require-named' && !isIgnoredType(getTypeReferenceName(propsType) ?? typeText, null)) {
+          reportUnnamedPropsType(componentNode, componentName, propsType, `the utility type "${typeText}"`);
         }
+        return;
+      }
+
+      if (propsType.type === 'TSTypeLiteral') {
+        if (inlineTypes === 'require-named') {
+          reportUnnamedPropsType(componentNode, componentName, propsType, 'an inline type literal');
+        }
+        return;
+      }
+
+      if (propsType.type !== 'TSIntersectionType' && propsType.type !== 'TSUnionType') return;
+
+      const isIntersection = propsType.type === 'TSIntersectionType';
+      const policy = isIntersection ? intersectionTypes : unionTypes;
+      const shape = `the ${isIntersection ? 'intersection' : 'union'} "${typeText}"`;
+
+      if (policy === 'require-named') {
+        reportUnnamedPropsType(componentNode, componentName, propsType, shape);
+      }
+
+      // Accept compositions such as ButtonProps & VariantProps<typeof button> when one member has the expected name
+      if (policy === 'require-props-member') {
+        const expectedNames = getExpectedNames(componentName);
+        const hasPropsMember = propsType.types.some(
+          (member) =>
+            member.type === 'TSTypeReference' &&
+            !isUtilityType(member) &&
+            expectedNames.includes(getTypeReferenceBaseName(member))
+        );
+
+        if (!hasPropsMember) {
+          context.report({
+            data: { actual: typeText, component: componentName, expected: expectedNames[0] },
+            messageId: 'missingPropsTypeMember',
+            node: componentNode,
+          });
+        }
+      }
+    }
+
+    /**
+     * Checks the props and (optionally) state type arguments of a class component
+     */
+    function checkClassComponentInterfaces(node: TSESTree.ClassDeclaration, componentName: string): void {
+      const [propsType, stateType] = node.superTypeArguments?.params ?? [];
+
+      if (propsType) {
+        checkPropsType(node, componentName, propsType);
+      }
+
+      if (checkState && stateType?.type === 'TSTypeReference') {
+        checkTypeName(node, componentName, getTypeReferenceName(stateType), stateType, 'state');
+      }
+    }
+
+    function checkComponentPropsInterface(
+      componentNode: TSESTree.ArrowFunctionExpression | TSESTree.FunctionDeclaration | TSESTree.VariableDeclarator,
+      componentName: string
+    ): void {
+      let propsType: TSESTree.TypeNode | null = null;
+
+      // Handle function declarations and anonymous default exported arrow functions
+      if (componentNode.type === 'FunctionDeclaration' || componentNode.type === 'ArrowFunctionExpression') {
+        propsType = getPropsType(componentNode);
       }
 
       // Handle arrow function components
       if (componentNode.type === 'VariableDeclarator' && componentNode.init) {
-        let functionNode: TSESTree.ArrowFunctionExpression | TSESTree.FunctionExpression | null = null;
+        // Generic components are often cast after wrapping: forwardRef(Select) as <T>(...) => JSX.Element
+        const init = skipTypeAssertions(componentNode.init);
+        let functionNode: PropsFunctionNode | null = null;
 
         // Direct arrow function or function expression
-        if (componentNode.init.type === 'ArrowFunctionExpression' || componentNode.init.type === 'FunctionExpression') {
-          functionNode = componentNode.init;
+        if (init.type === 'ArrowFunctionExpression' || init.type === 'FunctionExpression') {
+          functionNode = init;
         }
         // Arrow function within forwardRef, memo, etc.
-        else if (componentNode.init.type === 'CallExpression') {
-          // Handle forwardRef, memo, etc.
-          if (componentNode.init.arguments.length > 0) {
-            let callExpression = componentNode.init;
-
-            // Handle nested calls like memo(forwardRef(...))
-            while (callExpression && callExpression.type === 'CallExpression') {
-              const firstArg = callExpression.arguments[0];
-
-              if (firstArg.type === 'ArrowFunctionExpression' || firstArg.type === 'FunctionExpression') {
-                functionNode = firstArg;
-                break;
-              } else if (firstArg.type === 'CallExpression') {
-                // Continue unwrapping nested calls
-                callExpression = firstArg;
-              } else {
-                break;
-              }
+        else if (init.type === 'CallExpression') {
+          let callExpression: TSESTree.CallExpression = init;
+
+          // Handle nested calls like memo(forwardRef(...)), only unwrapping configured component wrappers
+          while (isComponentWrapperCall(callExpression, componentWrappers)) {
+            const firstArg = callExpression.arguments[0];
+            if (!firstArg) break;
+
+            if (firstArg.type === 'ArrowFunctionExpression' || firstArg.type === 'FunctionExpression') {
+              functionNode = firstArg;
+              break;
+            } else if (firstArg.type === 'Identifier') {
+              // Components passed by name: forwardRef(SelectInner)
+              functionNode = resolveFunctionReference(firstArg);
+              break;
+            } else if (firstArg.type === 'CallExpression') {
+              // Continue unwrapping nested calls
+              callExpression = firstArg;
+            } else {
+              break;
             }
           }
         }
 
-        if (functionNode && functionNode.params.length > 0) {
-          const firstParam = functionNode.params[0];
-          if (firstParam.type === 'ObjectPattern' && firstParam.typeAnnotation) {
-            const typeAnnotation = firstParam.typeAnnotation.typeAnnotation;
-            if (typeAnnotation.type === 'TSTypeReference') {
-              if (typeAnnotation.typeName.type === 'Identifier') {
-                actualInterfaceName = typeAnnotation.typeName.name;
-              } else if (typeAnnotation.typeName.type === 'TSQualifiedName') {
-                // Handle React.ComponentProps<'div'>, etc. - use full signature
-                actualInterfaceName = getFullTypeSignature(typeAnnotation);
-              }
-            }
-          }
+        if (functionNode) {
+          propsType = getPropsType(functionNode);
         }
 
         // Handle forwardRef with generics (including nested in memo, etc.)
-        if (componentNode.init.type === 'CallExpression') {
-          let callExpression = componentNode.init;
+        if (init.type === 'CallExpression') {
+          let callExpression: TSESTree.CallExpression = init;
 
-          // Search for forwardRef in nested calls
-          while (callExpression && callExpression.type === 'CallExpression') {
+          // Search for forwardRef (or React.forwardRef, or a forwardRef helper) in nested wrapper calls
+          while (isComponentWrapperCall(callExpression, componentWrappers)) {
             if (
-              callExpression.callee.type === 'Identifier' &&
-              callExpression.callee.name === 'forwardRef' &&
+              isForwardRefCallee(getCalleeName(callExpression.callee)) &&
               callExpression.typeArguments &&
               callExpression.typeArguments.params.length >= 2
             ) {
-              const propsTypeParam = callExpression.typeArguments.params[1];
-              if (propsTypeParam.type === 'TSTypeReference') {
-                if (propsTypeParam.typeName.type === 'Identifier') {
-                  actualInterfaceName = propsTypeParam.typeName.name;
-                } else if (propsTypeParam.typeName.type === 'TSQualifiedName') {
-                  // Handle React.ComponentProps<'div'>, etc. - use full signature
-                  actualInterfaceName = getFullTypeSignature(propsTypeParam);
-                }
-              }
+              propsType = callExpression.typeArguments.params[1];
               break;
             }
 
@@ -133,66 +586,62 @@ export const componentPropInterfaceNaming = createRule({
           const typeRef = componentNode.id.typeAnnotation.typeAnnotation;
           if (typeRef.typeArguments && typeRef.typeArguments.params.length > 0) {
             const firstTypeParam = typeRef.typeArguments.params[0];
-            if (firstTypeParam.type === 'TSTypeReference') {
-              // Find all interface names in the type reference (including nested ones)
-              const interfaceNames = findInterfaceNamesInTypeReference(firstTypeParam);
+            if (firstTypeParam.type !== 'TSTypeReference' || isUtilityType(firstTypeParam)) {
+              // Inline, composed and utility props types: FunctionComponent<{ label: string }>
+              propsType = propsType ?? firstTypeParam;
+            } else {
+              // Find all type references in the type reference (including nested ones)
+              const typeReferences = findTypeReferencesInTypeReference(firstTypeParam);
 
               // Look for an interface name that matches the expected patterns
-              for (const name of interfaceNames) {
-                if (
-                  name.endsWith('Props') ||
-                  name.endsWith('Options') ||
-                  name.endsWith('Config') ||
-                  name.endsWith('Settings')
-                ) {
-                  actualInterfaceName = name;
-                  break;
-                }
-              }
+              const propsTypeReference = typeReferences.find((typeReference) =>
+                propsSuffixes.some((suffix) => getTypeReferenceBaseName(typeReference).endsWith(suffix))
+              );
 
               // If no props-like interface found, use the first one (for direct references)
-              if (!actualInterfaceName) {
-                if (firstTypeParam.typeName.type === 'Identifier') {
-                  actualInterfaceName = firstTypeParam.typeName.name;
-                } else if (firstTypeParam.typeName.type === 'TSQualifiedName') {
-                  // Handle React.ComponentProps<'div'>, etc. - use full signature
-                  actualInterfaceName = getFullTypeSignature(firstTypeParam);
-                }
-              }
+              propsType = propsTypeReference ?? propsType ?? firstTypeParam;
             }
           }
         }
       }
 
-      // Report error if interface name doesn't match expected pattern
-      if (actualInterfaceName && actualInterfaceName !== fullExpectedName && actualInterfaceName !== baseExpectedName) {
-        // Always suggest the full component name for consistency in error messages
-        const expectedInterfaceName = fullExpectedName;
-
-        context.report({
-          data: {
-            actual: actualInterfaceName,
-            component: componentName,
-            expected: expectedInterfaceName,
-          },
-          messageId: 'incorrectPropsInterfaceName',
-          node: componentNode,
-        });
+      if (propsType) {
+        checkPropsType(componentNode, componentName, propsType);
       }
     }
 
     return {
+      ClassDeclaration(node) {
+        const superClassName = node.superClass ? getCalleeName(node.superClass) : null;
+        if (!superClassName || !CLASS_COMPONENT_BASES.includes(superClassName)) return;
+
+        const componentName = node.id?.name ?? getComponentNameFromFilename(context.filename);
+        if (componentName) {
+          checkClassComponentInterfaces(node, componentName);
+        }
+      },
+
+      // Anonymous default exports are named after the file: export default (props: Props) => ...
+      'ExportDefaultDeclaration > ArrowFunctionExpression'(node: TSESTree.ArrowFunctionExpression) {
+        if (!isComponentFunction(node, componentWrappers)) return;
+
+        const componentName = getComponentNameFromFilename(context.filename);
+        if (componentName) {
+          checkComponentPropsInterface(node, componentName);
+        }
+      },
+
       FunctionDeclaration(node) {
-        if (!isComponentFunction(node)) return;
+        if (!isComponentFunction(node, componentWrappers) || isWrappedByReference(node)) return;
 
-        const componentName = extractComponentName(node);
+        const componentName = extractComponentName(node) ?? getComponentNameFromFilename(context.filename);
         if (componentName) {
           checkComponentPropsInterface(node, componentName);
         }
       },
 
       VariableDeclarator(node) {
-        if (!isComponentFunction(node)) return;
+        if (!isComponentFunction(node, componentWrappers) || isWrappedByReference(node)) return;
 
         const componentName = extractComponentName(node);
         if (componentName) {
@@ -201,17 +650,78 @@ export const componentPropInterfaceNaming = createRule({
       },
     };
   },
-  defaultOptions: [],
+  defaultOptions: [DEFAULT_OPTIONS],
   meta: {
     docs: {
       description: 'Enforce component prop interfaces follow ComponentNameProps naming convention',
     },
     fixable: undefined,
+    hasSuggestions: true,
     messages: {
+      extractPropsType: 'Extract the props type to "{{expected}}"',
+      incorrectImportedPropsInterfaceName:
+        'Component "{{component}}" prop interface should be named "{{expected}}" instead of "{{actual}}" (declared in {{file}})',
       incorrectPropsInterfaceName:
         'Component "{{component}}" prop interface should be named "{{expected}}" instead of "{{actual}}"',
+      incorrectStateInterfaceName:
+        'Component "{{component}}" state interface should be named "{{expected}}" instead of "{{actual}}"',
+      missingPropsTypeMember:
+        'Component "{{component}}" props type "{{actual}}" should include a type named "{{expected}}"',
+      renamePropsInterface: 'Rename "{{actual}}" to "{{expected}}"',
+      renameStateInterface: 'Rename "{{actual}}" to "{{expected}}"',
+      requireNamedPropsType:
+        'Component "{{component}}" props should use a named type "{{expected}}" instead of {{shape}}',
     },
-    schema: [],
+    schema: [
+      {
+        additionalProperties: false,
+        properties: {
+          checkState: {
+            type: 'boolean',
+          },
+          ignore: {
+            items: { type: 'string' },
+            type: 'array',
+          },
+          ignoredTypes: {
+            items: { type: 'string' },
+            type: 'array',
+          },
+          inlineTypes: {
+            enum: ['allow', 'require-named'],
+            type: 'string',
+          },
+          intersectionTypes: {
+            enum: ['allow', 'require-named', 'require-props-member'],
+            type: 'string',
+          },
+          namingTemplate: {
+            pattern: '\\{Component\\}',
+            type: 'string',
+          },
+          propsSuffixes: {
+            items: { type: 'string' },
+            type: 'array',
+          },
+          resolveImportedTypes: {
+            type: 'boolean',
+          },
+          stateNamingTemplate: {
+            pattern: '\\{Component\\}',
+            type: 'string',
+          },
+          unionTypes: {
+            enum: ['allow', 'require-named', 'require-props-member'],
+            type: 'string',
+          },
+          utilityTypes: {
+            enum: ['allow', 'require-named'],
+            type: 'string',
+          },
+        },
+        type: 'object',
+      },
+    ],
     type: 'suggestion',
   },
   name: 'component-prop-interface-naming',
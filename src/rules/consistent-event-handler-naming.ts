@@ -2,17 +2,52 @@ import { TSESTree } from '@typescript-eslint/utils';
 
 import {
   createRule,
+  createIgnoreMatcher,
+  createRenameFix,
+  DEFAULT_HANDLER_PREFIXES,
+  DEFAULT_HANDLER_SUFFIXES,
+  DEFAULT_INTERNAL_HANDLER_PREFIX,
+  DEFAULT_PROP_HANDLER_PREFIX,
   eventHandlerAttributes,
   extractEventFromHandlerName,
   generateHandleEventName,
   generateOnEventName,
+  hasHandlerPrefix,
   isEventHandlerName,
   hasEventHandlerParameters,
   looksLikeFunctionType,
 } from '../utils';
 
-export const consistentEventHandlerNaming = createRule({
-  create(context) {
+export interface RuleOptions {
+  handlerSuffixes: string[];
+  ignore?: string[];
+  internalPrefix: string;
+  propPrefix: string;
+}
+
+const DEFAULT_OPTIONS: RuleOptions = {
+  handlerSuffixes: DEFAULT_HANDLER_SUFFIXES,
+  ignore: [],
+  internalPrefix: DEFAULT_INTERNAL_HANDLER_PREFIX,
+  propPrefix: DEFAULT_PROP_HANDLER_PREFIX,
+};
+
+export const consistentEventHandlerNaming = createRule<[RuleOptions], 'incorrectHandlerNaming' | 'renameHandler'>({
+  create(context, [options = DEFAULT_OPTIONS]) {
+    const { handlerSuffixes, ignore, internalPrefix, propPrefix } = options;
+    const isIgnoredName = createIgnoreMatcher(ignore);
+
+    // Configured prefixes are recognized alongside the default "handle" and "on" prefixes
+    const handlerPrefixes = [...new Set([internalPrefix, propPrefix, ...DEFAULT_HANDLER_PREFIXES])];
+
+    function isConfiguredHandlerName(name: string): boolean {
+      return isEventHandlerName(name, handlerPrefixes, handlerSuffixes);
+    }
+
+    function extractEventName(name: string): string {
+      return extractEventFromHandlerName(name, handlerPrefixes, handlerSuffixes);
+    }
+
     // Track functions that are used as event handlers in JSX
     const usedAsEventHandlers = new Set<string>();
 
@@ -23,16 +58,17 @@ export const consistentEventHandlerNaming = createRule({
 
     // Use shared utility functions from utils
 
-    function checkInternalEventHandler(node: TSESTree.Node, name: string): void {
-      // Skip if name already has correct "handle" prefix
-      if (name.startsWith('handle') && /^handle[A-Z]/.test(name)) {
+    function checkInternalEventHandler(node: TSESTree.Identifier, name: string): void {
+      // Skip if name already has correct internal prefix
+      if (hasHandlerPrefix(name, internalPrefix) || isIgnoredName(name)) {
         return;
       }
 
-      // Check if this looks like an event handler name that should use "handle" prefix
-      if (isEventHandlerName(name) || usedAsEventHandlers.has(name)) {
-        const eventName = extractEventFromHandlerName(name);
-        const expectedName = generateHandleEventName(eventName);
+      // Check if this looks like an event handler name that should use the internal prefix
+      if (isConfiguredHandlerName(name) || usedAsEventHandlers.has(name)) {
+        const eventName = extractEventName(name);
+        const expectedName = generateHandleEventName(eventName, internalPrefix);
+        const renameFix = createRenameFix(context.sourceCode, node, expectedName);
 
         context.report({
           data: {
@@ -42,20 +78,29 @@ export const consistentEventHandlerNaming = createRule({
           },
           messageId: 'incorrectHandlerNaming',
           node,
+          suggest: renameFix
+            ? [
+                {
+                  data: { actual: name, expected: expectedName },
+                  fix: renameFix,
+                  messageId: 'renameHandler',
+                },
+              ]
+            : null,
         });
       }
     }
 
     function checkEventHandlerProp(node: TSESTree.Node, name: string): void {
-      // Skip if name already has correct "on" prefix
-      if (name.startsWith('on') && /^on[A-Z]/.test(name)) {
+      // Skip if name already has correct prop prefix
+      if (hasHandlerPrefix(name, propPrefix) || isIgnoredName(name)) {
         return;
       }
 
       // Check if this looks like an event handler prop that should use "on" prefix
       // This includes both explicit patterns and names that end with common event patterns
       const isHandlerProp =
-        isEventHandlerName(name) ||
+        isConfiguredHandlerName(name) ||
         /Changed$/.test(name) ||
         /Clicked$/.test(name) ||
         /Pressed$/.test(name) ||
@@ -63,8 +108,8 @@ export const consistentEventHandlerNaming = createRule({
         /Left$/.test(name);
 
       if (isHandlerProp) {
-        const eventName = extractEventFromHandlerName(name);
-        const expectedName = generateOnEventName(eventName);
+        const eventName = extractEventName(name);
+        const expectedName = generateOnEventName(eventName, propPrefix);
 
         context.report({
           data: {
@@ -107,7 +152,7 @@ export const consistentEventHandlerNaming = createRule({
           if (node.type === 'FunctionDeclaration' && node.id?.name) {
             // Check if this looks like an event handler
             if (
-              isEventHandlerName(node.id.name) ||
+              isConfiguredHandlerName(node.id.name) ||
               hasEventHandlerParameters(node) ||
               usedAsEventHandlers.has(node.id.name)
             ) {
@@ -120,7 +165,7 @@ export const consistentEventHandlerNaming = createRule({
             // Check arrow functions
             if (node.init.type === 'ArrowFunctionExpression') {
               shouldCheck =
-                isEventHandlerName(name) || hasEventHandlerParameters(node.init) || usedAsEventHandlers.has(name);
+                isConfiguredHandlerName(name) || hasEventHandlerParameters(node.init) || usedAsEventHandlers.has(name);
             }
             // Check useCallback calls
             else if (
@@ -134,13 +179,15 @@ export const consistentEventHandlerNaming = createRule({
                 (callbackArg.type === 'ArrowFunctionExpression' || callbackArg.type === 'FunctionExpression')
               ) {
                 shouldCheck =
-                  isEventHandlerName(name) || hasEventHandlerParameters(callbackArg) || usedAsEventHandlers.has(name);
+                  isConfiguredHandlerName(name) ||
+                  hasEventHandlerParameters(callbackArg) ||
+                  usedAsEventHandlers.has(name);
               }
             }
             // Check function expressions
             else if (node.init.type === 'FunctionExpression') {
               shouldCheck =
-                isEventHandlerName(name) || hasEventHandlerParameters(node.init) || usedAsEventHandlers.has(name);
+                isConfiguredHandlerName(name) || hasEventHandlerParameters(node.init) || usedAsEventHandlers.has(name);
             }
 
             if (shouldCheck) {
@@ -189,17 +236,40 @@ export const consistentEventHandlerNaming = createRule({
       },
     };
   },
-  defaultOptions: [],
+  defaultOptions: [DEFAULT_OPTIONS],
   meta: {
     docs: {
       description: 'Enforce consistent naming patterns for event handlers based on their context',
     },
     fixable: undefined,
+    hasSuggestions: true,
     messages: {
       incorrectHandlerNaming:
         'Event handler "{{actual}}" should be named "{{expected}}" ({{context}} handlers require proper prefix)',
+      renameHandler: 'Rename "{{actual}}" to "{{expected}}"',
     },
-    schema: [],
+    schema: [
+      {
+        additionalProperties: false,
+        properties: {
+          handlerSuffixes: {
+            items: { type: 'string' },
+            type: 'array',
+          },
+          ignore: {
+            items: { type: 'string' },
+            type: 'array',
+          },
+          internalPrefix: {
+            type: 'string',
+          },
+          propPrefix: {
+            type: 'string',
+          },
+        },
+        type: 'object',
+      },
+    ],
     type: 'suggestion',
   },
   name: 'consistent-event-handler-naming',
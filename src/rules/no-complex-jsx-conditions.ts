@@ -1,11 +1,16 @@
-import { TSESTree, AST_NODE_TYPES } from '@typescript-eslint/utils';
+import { TSESTree, AST_NODE_TYPES, ASTUtils, TSESLint } from '@typescript-eslint/utils';
 
 import {
   createRule,
+  containsJSX,
   countLogicalOperators,
+  getCalleeName,
+  getJSXElementName,
+  getPluginSettings,
   hasTemplateLiteral,
   hasLogicalAssignment,
   isComplexOperand,
+  suggestDerivedConditionalName,
 } from '../utils';
 
 function hasComplexTernaryCondition(node: TSESTree.ConditionalExpression): boolean {
@@ -27,77 +32,224 @@ function hasComplexTernaryCondition(node: TSESTree.ConditionalExpression): boole
   return testLogicalCount > 0 || consequentComplex || alternateComplex;
 }
 
-function isComplexCondition(node: TSESTree.Expression): boolean {
-  // Count logical operators (&&, ||)
-  const logicalCount = countLogicalOperators(node);
-
-  // Consider complex if more than 2 logical operators (allows simple a && b && c)
-  if (logicalCount > 2) {
-    return true;
+function hasComplexOperandsInChain(node: TSESTree.LogicalExpression): boolean {
+  // Check if the logical chain contains complex operands
+  function checkOperand(operand: TSESTree.Expression): boolean {
+    return isComplexOperand(operand);
   }
 
-  // Check for complex ternary conditions
-  if (node.type === AST_NODE_TYPES.ConditionalExpression) {
-    return hasComplexTernaryCondition(node);
+  function traverseLogical(expr: TSESTree.Expression): boolean {
+    if (expr.type === AST_NODE_TYPES.LogicalExpression) {
+      return traverseLogical(expr.left) || traverseLogical(expr.right);
+    }
+    return checkOperand(expr);
   }
 
-  // For 2 or 3 logical operators, check if operands are complex
-  if (node.type === AST_NODE_TYPES.LogicalExpression && logicalCount >= 2) {
-    return hasComplexOperandsInChain(node);
+  return traverseLogical(node);
+}
+
+function getTernaryDepth(node: TSESTree.Expression): number {
+  if (node.type !== AST_NODE_TYPES.ConditionalExpression) {
+    return 0;
   }
 
-  // Check for template literals combined with logical operators (even single logical operator makes it complex)
-  if (logicalCount >= 1 && hasTemplateLiteral(node)) {
-    return true;
+  return 1 + Math.max(getTernaryDepth(node.consequent), getTernaryDepth(node.alternate));
+}
+
+/**
+ * Converts JSX names such as motion.div or aria-hidden to camelCase words (motionDiv, ariaHidden)
+ */
+function toCamelCase(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const pascalCase = words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return pascalCase.charAt(0).toLowerCase() + pascalCase.slice(1);
+}
+
+/**
+ * Finds the part of a JSX expression that should be extracted: the condition guarding rendered JSX
+ * (cond && <X />, cond ? <A /> : <B />) or the whole expression when it renders nothing
+ */
+function getExtractableCondition(node: TSESTree.Expression): TSESTree.Expression | null {
+  if (node.type === AST_NODE_TYPES.LogicalExpression && node.operator === '&&' && containsJSX(node.right)) {
+    return containsJSX(node.left) ? null : node.left;
   }
 
-  // Check for logical assignment operators
-  if (hasLogicalAssignment(node)) {
-    return true;
+  if (node.type === AST_NODE_TYPES.ConditionalExpression) {
+    return countLogicalOperators(node.test) > 0 && !containsJSX(node.test) ? node.test : null;
   }
 
-  return false;
+  return containsJSX(node) ? null : node;
 }
 
-function hasComplexOperandsInChain(node: TSESTree.LogicalExpression): boolean {
-  // Check if the logical chain contains complex operands
-  function checkOperand(operand: TSESTree.Expression): boolean {
-    return isComplexOperand(operand);
+/**
+ * Describes what an extracted condition controls, used to build the variable name
+ * (e.g., {... && <AdminPanel />} -> adminPanelVisible, disabled={...} -> disabled)
+ */
+function getConditionSubject(container: TSESTree.JSXExpressionContainer): string {
+  if (
+    container.parent.type === AST_NODE_TYPES.JSXAttribute &&
+    container.parent.name.type === AST_NODE_TYPES.JSXIdentifier
+  ) {
+    return toCamelCase(container.parent.name.name);
   }
 
-  function traverseLogical(expr: TSESTree.Expression): boolean {
-    if (expr.type === AST_NODE_TYPES.LogicalExpression) {
-      return traverseLogical(expr.left) || traverseLogical(expr.right);
-    }
-    return checkOperand(expr);
+  const expression = container.expression;
+  const rendered =
+    expression.type === AST_NODE_TYPES.LogicalExpression
+      ? expression.right
+      : expression.type === AST_NODE_TYPES.ConditionalExpression
+        ? expression.consequent
+        : null;
+
+  if (rendered?.type === AST_NODE_TYPES.JSXElement) {
+    return `${toCamelCase(getJSXElementName(rendered.openingElement.name))}Visible`;
   }
 
-  return traverseLogical(node);
+  return 'conditionMet';
 }
 
-function isInsideClassNameUtility(node: TSESTree.JSXExpressionContainer): boolean {
-  // Check if this JSX expression is inside a className utility function call
-  const parent = node.parent;
-  if (parent && parent.type === AST_NODE_TYPES.JSXAttribute) {
-    const jsxAttribute = parent as TSESTree.JSXAttribute;
+/**
+ * Finds the return statement rendering a JSX expression container. Returns null when the container sits
+ * inside a nested function or another expression, where hoisting would change when the condition runs.
+ */
+function findEnclosingReturn(container: TSESTree.JSXExpressionContainer): TSESTree.ReturnStatement | null {
+  let current: TSESTree.Node = container;
+
+  while (current.parent) {
+    const parent: TSESTree.Node = current.parent;
+
+    if (parent.type === AST_NODE_TYPES.ReturnStatement) {
+      return parent.parent.type === AST_NODE_TYPES.BlockStatement ? parent : null;
+    }
+
     if (
-      jsxAttribute.name.type === AST_NODE_TYPES.JSXIdentifier &&
-      jsxAttribute.name.name === 'className' &&
-      node.expression.type === AST_NODE_TYPES.CallExpression
+      parent.type !== AST_NODE_TYPES.JSXElement &&
+      parent.type !== AST_NODE_TYPES.JSXFragment &&
+      parent.type !== AST_NODE_TYPES.JSXOpeningElement &&
+      parent.type !== AST_NODE_TYPES.JSXAttribute
     ) {
-      const callExpression = node.expression;
-      if (callExpression.callee.type === AST_NODE_TYPES.Identifier) {
-        const functionName = callExpression.callee.name;
-        // Allow className utility functions
-        return ['cn', 'clsx', 'cva', 'cx'].includes(functionName);
-      }
+      return null;
     }
+
+    current = parent;
   }
-  return false;
+
+  return null;
 }
 
-export const noComplexJsxConditions = createRule({
-  create(context) {
+/**
+ * Checks if a new variable can be declared in a scope without shadowing or colliding with another binding
+ */
+function isNameAvailable(scope: TSESLint.Scope.Scope, name: string): boolean {
+  if (ASTUtils.findVariable(scope, name)) {
+    return false;
+  }
+
+  return !scope.through.some((reference) => reference.identifier.name === name);
+}
+
+export interface RuleOptions {
+  classNameAttributes: string[];
+  classNameHelpers?: string[];
+  countTemplateLiterals: boolean;
+  maxLogicalOperators: number;
+  maxTernaryDepth: number;
+}
+
+const DEFAULT_OPTIONS: RuleOptions = {
+  classNameAttributes: ['className'],
+  countTemplateLiterals: true,
+  maxLogicalOperators: 2,
+  maxTernaryDepth: Infinity,
+};
+
+export const noComplexJsxConditions = createRule<[RuleOptions], 'complexCondition' | 'extractCondition'>({
+  create(context, [options = DEFAULT_OPTIONS]) {
+    const { classNameAttributes, countTemplateLiterals, maxLogicalOperators, maxTernaryDepth } = options;
+    // The rule option takes precedence over the shared settings['react-snob'].classNameHelpers
+    const classNameHelpers = options.classNameHelpers ?? getPluginSettings(context).classNameHelpers;
+
+    function isComplexCondition(node: TSESTree.Expression): boolean {
+      // Count logical operators (&&, ||)
+      const logicalCount = countLogicalOperators(node);
+
+      // Consider complex if more than the allowed logical operators (by default allows simple a && b && c)
+      if (logicalCount > maxLogicalOperators) {
+        return true;
+      }
+
+      // Check for complex ternary conditions
+      if (node.type === AST_NODE_TYPES.ConditionalExpression) {
+        return getTernaryDepth(node) > maxTernaryDepth || hasComplexTernaryCondition(node);
+      }
+
+      // For 2 or 3 logical operators, check if operands are complex
+      if (node.type === AST_NODE_TYPES.LogicalExpression && logicalCount >= 2) {
+        return hasComplexOperandsInChain(node);
+      }
+
+      // Check for template literals combined with logical operators (even single logical operator makes it complex)
+      if (countTemplateLiterals && logicalCount >= 1 && hasTemplateLiteral(node)) {
+        return true;
+      }
+
+      // Check for logical assignment operators
+      if (hasLogicalAssignment(node)) {
+        return true;
+      }
+
+      return false;
+    }
+
+    function isInsideClassNameUtility(node: TSESTree.JSXExpressionContainer): boolean {
+      // Check if this JSX expression is inside a className utility function call
+      const parent = node.parent;
+      if (
+        parent.type === AST_NODE_TYPES.JSXAttribute &&
+        parent.name.type === AST_NODE_TYPES.JSXIdentifier &&
+        classNameAttributes.includes(parent.name.name) &&
+        node.expression.type === AST_NODE_TYPES.CallExpression
+      ) {
+        const functionName = getCalleeName(node.expression.callee);
+        // Allow className utility functions
+        return functionName !== null && classNameHelpers.includes(functionName);
+      }
+      return false;
+    }
+
+    /**
+     * Creates a fix that hoists the complex condition into a const declared just before the return statement
+     * and replaces it in JSX with the new variable
+     */
+    function createExtractFix(
+      node: TSESTree.JSXExpressionContainer,
+      expression: TSESTree.Expression
+    ): { fix: TSESLint.ReportFixFunction; name: string } | null {
+      const condition = getExtractableCondition(expression);
+      const returnStatement = findEnclosingReturn(node);
+      if (!condition || !returnStatement) return null;
+
+      // Append a counter when the generated name is already taken
+      const scope = context.sourceCode.getScope(returnStatement);
+      const baseName = suggestDerivedConditionalName(getConditionSubject(node));
+      let name = baseName;
+      for (let index = 2; !isNameAvailable(scope, name); index++) {
+        name = `${baseName}${index}`;
+      }
+
+      const returnLine = context.sourceCode.lines[returnStatement.loc.start.line - 1];
+      const indent = returnLine.slice(0, returnLine.length - returnLine.trimStart().length);
+      const conditionText = context.sourceCode.getText(condition);
+
+      return {
+        fix: (fixer) => [
+          fixer.insertTextBefore(returnStatement, `const ${name} = ${conditionText};\n${indent}`),
+          fixer.replaceText(condition, name),
+        ],
+        name,
+      };
+    }
+
     const checkedNodes = new Set<TSESTree.JSXExpressionContainer>();
 
     function checkExpression(node: TSESTree.JSXExpressionContainer) {
@@ -116,9 +268,20 @@ export const noComplexJsxConditions = createRule({
       }
 
       if (isComplexCondition(node.expression)) {
+        const extraction = createExtractFix(node, node.expression);
+
         context.report({
           messageId: 'complexCondition',
           node: node,
+          suggest: extraction
+            ? [
+                {
+                  data: { name: extraction.name },
+                  fix: extraction.fix,
+                  messageId: 'extractCondition',
+                },
+              ]
+            : null,
         });
       }
     }
@@ -134,17 +297,45 @@ export const noComplexJsxConditions = createRule({
       },
     };
   },
-  defaultOptions: [],
+  defaultOptions: [DEFAULT_OPTIONS],
   meta: {
     docs: {
       description: 'Disallow complex boolean conditions in JSX expressions and component props',
     },
     fixable: undefined,
+    hasSuggestions: true,
     messages: {
       complexCondition:
         'Complex boolean condition found in JSX. Extract to a descriptive variable (e.g., _isReady, _canEdit) to improve readability.',
+      extractCondition: 'Extract the condition to a variable named "{{name}}"',
     },
-    schema: [],
+    schema: [
+      {
+        additionalProperties: false,
+        properties: {
+          classNameAttributes: {
+            items: { type: 'string' },
+            type: 'array',
+          },
+          classNameHelpers: {
+            items: { type: 'string' },
+            type: 'array',
+          },
+          countTemplateLiterals: {
+            type: 'boolean',
+          },
+          maxLogicalOperators: {
+            minimum: 0,
+            type: 'integer',
+          },
+          maxTernaryDepth: {
+            minimum: 1,
+            type: 'integer',
+          },
+        },
+        type: 'object',
+      },
+    ],
     type: 'suggestion',
   },
   name: 'no-complex-jsx-conditions',
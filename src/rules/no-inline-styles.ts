@@ -1,15 +1,102 @@
-import { createRule } from '../utils';
+import { TSESTree, AST_NODE_TYPES } from '@typescript-eslint/utils';
+
+import { createRule, getJSXElementName } from '../utils';
+
+export interface RuleOptions {
+  allowCustomProperties: boolean;
+  allowDynamicValues: boolean;
+  allowedElements: string[];
+  attributes: string[];
+}
+
+const DEFAULT_OPTIONS: RuleOptions = {
+  allowCustomProperties: false,
+  allowDynamicValues: false,
+  allowedElements: [],
+  attributes: ['style'],
+};
+
+/**
+ * Checks if a style value is known at build time (e.g., 'red', 16, `10px`, -1)
+ */
+function isStaticValue(node: TSESTree.Node): boolean {
+  if (node.type === AST_NODE_TYPES.Literal) {
+    return true;
+  }
+
+  if (node.type === AST_NODE_TYPES.TemplateLiteral) {
+    return node.expressions.length === 0;
+  }
+
+  if (node.type === AST_NODE_TYPES.UnaryExpression) {
+    return isStaticValue(node.argument);
+  }
+
+  return false;
+}
+
+/**
+ * Gets the name of a style object property key (e.g., color, '--progress')
+ */
+function getPropertyKeyName(node: TSESTree.Property): string | null {
+  if (node.computed) return null;
+
+  if (node.key.type === AST_NODE_TYPES.Identifier) {
+    return node.key.name;
+  }
+
+  if (node.key.type === AST_NODE_TYPES.Literal && typeof node.key.value === 'string') {
+    return node.key.value;
+  }
+
+  return null;
+}
+
+export const noInlineStyles = createRule<[RuleOptions], 'noInlineStyle'>({
+  create(context, [options = DEFAULT_OPTIONS]) {
+    const { allowCustomProperties, allowDynamicValues, allowedElements, attributes } = options;
+
+    /**
+     * Checks if a style object only contains properties allowed by the options
+     * (CSS custom properties and/or values computed at runtime)
+     */
+    function isAllowedStyleObject(node: TSESTree.Expression | TSESTree.JSXEmptyExpression): boolean {
+      if (!allowCustomProperties && !allowDynamicValues) return false;
+      if (node.type !== AST_NODE_TYPES.ObjectExpression || node.properties.length === 0) return false;
+
+      return node.properties.every((property) => {
+        // Spread styles can contain anything
+        if (property.type === AST_NODE_TYPES.SpreadElement) return false;
+
+        const keyName = getPropertyKeyName(property);
+        if (allowCustomProperties && keyName?.startsWith('--')) {
+          return true;
+        }
+
+        return allowDynamicValues && !isStaticValue(property.value);
+      });
+    }
 
-export const noInlineStyles = createRule({
-  create(context) {
     return {
       JSXAttribute(node) {
         if (
           node.name.type === 'JSXIdentifier' &&
-          node.name.name === 'style' &&
+          attributes.includes(node.name.name) &&
           node.value &&
           node.value.type === 'JSXExpressionContainer'
         ) {
+          // Skip elements that are allowed to receive inline styles
+          if (
+            node.parent.type === AST_NODE_TYPES.JSXOpeningElement &&
+            allowedElements.includes(getJSXElementName(node.parent.name))
+          ) {
+            return;
+          }
+
+          if (isAllowedStyleObject(node.value.expression)) {
+            return;
+          }
+
           context.report({
             messageId: 'noInlineStyle',
             node: node,
@@ -18,7 +105,7 @@ export const noInlineStyles = createRule({
       },
     };
   },
-  defaultOptions: [],
+  defaultOptions: [DEFAULT_OPTIONS],
   meta: {
     docs: {
       description: 'Disallow inline styles in JSX elements',
@@ -27,7 +114,28 @@ export const noInlineStyles = createRule({
     messages: {
       noInlineStyle: 'Avoid using inline styles. Use CSS classes or styled-components instead.',
     },
-    schema: [],
+    schema: [
+      {
+        additionalProperties: false,
+        properties: {
+          allowCustomProperties: {
+            type: 'boolean',
+          },
+          allowDynamicValues: {
+            type: 'boolean',
+          },
+          allowedElements: {
+            items: { type: 'string' },
+            type: 'array',
+          },
+          attributes: {
+            items: { type: 'string' },
+            type: 'array',
+          },
+        },
+        type: 'object',
+      },
+    ],
     type: 'suggestion',
   },
   name: 'no-inline-styles',
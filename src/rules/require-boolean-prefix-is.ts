@@ -5,73 +5,331 @@ import {
   isBooleanType,
   isBooleanLiteral,
   isLikelyBooleanExpression,
+  isStateHookCall,
+  isStateInitializerCall,
   isUseStateWithBoolean,
   isComponentOrHookParameter,
   isInZodOmitOrPickMethod,
   isInConstructorCall,
   suggestPrefixedName,
+  suggestPredicateName,
   hasAnyValidPrefix,
+  getTypeInformation,
+  hasBooleanTypeInformation,
+  createRenameFix,
+  getPluginSettings,
+  getHookCallName,
+  createIgnoreMatcher,
+  formatPrefixList,
 } from '../utils';
 
+/**
+ * Where a boolean identifier is declared, used to pick the allowed prefixes and to describe it in reports
+ */
+export type BooleanContext =
+  | 'classProperty'
+  | 'componentParameter'
+  | 'constant'
+  | 'interfaceMember'
+  | 'localVariable'
+  | 'objectProperty'
+  | 'predicateFunction'
+  | 'stateValue';
+
 export interface RuleOptions {
   allowedPrefixes: string[];
+  assumePrefixedHooksReturnBoolean?: boolean;
+  booleanHookReturns?: Record<string, boolean | string[]>;
+  checkPredicateFunctions?: boolean;
+  contextPrefixes?: Partial<Record<BooleanContext, string[]>>;
+  ignore?: string[];
+  useTypeInformation?: boolean;
 }
 
 const DEFAULT_OPTIONS: RuleOptions = {
   allowedPrefixes: ['is'],
+  assumePrefixedHooksReturnBoolean: false,
+  booleanHookReturns: {},
+  checkPredicateFunctions: false,
+  contextPrefixes: {},
+  ignore: [],
+  useTypeInformation: false,
+};
+
+const BOOLEAN_CONTEXTS: Record<BooleanContext, string> = {
+  classProperty: 'class property',
+  componentParameter: 'component parameter',
+  constant: 'constant',
+  interfaceMember: 'interface member',
+  localVariable: 'local variable',
+  objectProperty: 'object property',
+  predicateFunction: 'predicate function',
+  stateValue: 'state value',
 };
 
-export const requireBooleanPrefixIs = createRule<[RuleOptions], 'booleanShouldStartWithPrefix'>({
+// Nodes between a destructured binding and the declaration or function it belongs to
+const PATTERN_NODE_TYPES = new Set<string>([
+  'ArrayPattern',
+  'AssignmentPattern',
+  'ObjectPattern',
+  'Property',
+  'RestElement',
+]);
+
+type PredicateFunctionNode =
+  | TSESTree.ArrowFunctionExpression
+  | TSESTree.FunctionDeclaration
+  | TSESTree.FunctionExpression;
+
+/**
+ * Checks if a function declares a boolean return type or is a type guard: (value: string): value is Email
+ */
+function isPredicateFunction(node: PredicateFunctionNode): boolean {
+  const returnType = node.returnType;
+  if (!returnType) return false;
+
+  if (returnType.typeAnnotation.type === 'TSTypePredicate') {
+    // Assertion functions (asserts value is Email) don't return anything
+    return !returnType.typeAnnotation.asserts;
+  }
+
+  return isBooleanType(returnType);
+}
+
+/**
+ * Checks if a destructuring pattern is a function parameter, with or without a default:
+ * function Dialog({ open }), ({ open } = {}) => ...
+ */
+function isParameterPattern(node: TSESTree.ObjectPattern): boolean {
+  const param = node.parent?.type === 'AssignmentPattern' && node.parent.left === node ? node.parent : node;
+  const fn = param.parent;
+  const isFunction =
+    fn?.type === 'ArrowFunctionExpression' || fn?.type === 'FunctionDeclaration' || fn?.type === 'FunctionExpression';
+  return isFunction && fn.params.some((fnParam) => fnParam === param);
+}
+
+/**
+ * Gets the boolean members of an inline type literal annotating a destructuring pattern:
+ * ({ open }: { open: boolean }) -> open
+ */
+function getAnnotatedBooleanMembers(node: TSESTree.ObjectPattern): Set<string> {
+  const typeAnnotation = node.typeAnnotation?.typeAnnotation;
+  const members = typeAnnotation?.type === 'TSTypeLiteral' ? typeAnnotation.members : [];
+  const booleanMembers = new Set<string>();
+
+  members.forEach((member) => {
+    if (
+      member.type === 'TSPropertySignature' &&
+      member.key.type === 'Identifier' &&
+      member.typeAnnotation &&
+      isBooleanType(member.typeAnnotation)
+    ) {
+      booleanMembers.add(member.key.name);
+    }
+  });
+
+  return booleanMembers;
+}
+
+/**
+ * Gets the function assigned to a variable, property or class field, if any
+ */
+function getAssignedFunction(node: TSESTree.Node | null | undefined): PredicateFunctionNode | null {
+  if (node?.type === 'ArrowFunctionExpression' || node?.type === 'FunctionExpression') {
+    return node;
+  }
+
+  return null;
+}
+
+/**
+ * Gets the context of a declared variable: module-level const declarations (export const FEATURE_ENABLED = true)
+ * are constants, everything else is a local variable
+ */
+function getDeclaratorContext(node: TSESTree.VariableDeclarator): BooleanContext {
+  const declaration = node.parent;
+  const isModuleConstant =
+    declaration.kind === 'const' &&
+    (declaration.parent.type === 'Program' || declaration.parent.type === 'ExportNamedDeclaration');
+
+  return isModuleConstant ? 'constant' : 'localVariable';
+}
+
+export const requireBooleanPrefixIs = createRule<
+  [RuleOptions],
+  'booleanShouldStartWithPrefix' | 'renameBooleanIdentifier'
+>({
   create(context, [options = DEFAULT_OPTIONS]) {
-    const { allowedPrefixes } = options;
+    const {
+      allowedPrefixes,
+      assumePrefixedHooksReturnBoolean,
+      booleanHookReturns = {},
+      checkPredicateFunctions,
+      contextPrefixes = {},
+      ignore,
+      useTypeInformation,
+    } = options;
+    const isIgnoredName = createIgnoreMatcher(ignore);
+    const typeInformation = useTypeInformation ? getTypeInformation(context) : null;
+    const { componentWrappers, stateHooks, stateInitializers } = getPluginSettings(context);
+
+    /**
+     * Resolves the real type of a node when type information is enabled and available
+     */
+    function isBooleanTyped(node: TSESTree.Node): boolean {
+      return typeInformation !== null && hasBooleanTypeInformation(typeInformation, node);
+    }
+
+    /**
+     * Gets what a hook call is known to return: true for a boolean, or the names of its boolean fields.
+     * When enabled, hooks named after an allowed prefix (useIsMobile, useHasPermission) are assumed to return
+     * a boolean unless configured as false, or unless the type checker resolves another type.
+     */
+    function getKnownHookReturn(node: TSESTree.CallExpression): string[] | true | null {
+      const calleeName = getHookCallName(node);
+      if (!calleeName) return null;
+
+      // Configured by full name (Apollo.useQuery) or by hook name (useQuery)
+      const hookName = calleeName.split('.').pop() ?? calleeName;
+      const knownReturn = booleanHookReturns[calleeName] ?? booleanHookReturns[hookName];
+      if (knownReturn !== undefined) return knownReturn === false ? null : knownReturn;
+
+      if (!assumePrefixedHooksReturnBoolean) return null;
+
+      // const fetching = useIsFetching() returns a number
+      if (typeInformation && !isBooleanTyped(node)) return null;
 
-    function formatPrefixes(prefixes: string[]): string {
-      if (prefixes.length === 1) {
-        return `"${prefixes[0]}"`;
+      const returnName = hookName.charAt(3).toLowerCase() + hookName.slice(4);
+      return hasAnyValidPrefix(returnName, allowedPrefixes) ? true : null;
+    }
+
+    /**
+     * Gets the prefixes allowed in a context, falling back to the global list
+     */
+    function getPrefixes(booleanContext: BooleanContext): string[] {
+      return contextPrefixes[booleanContext] ?? allowedPrefixes;
+    }
+
+    /**
+     * Gets the context of a binding from the declaration or function its destructuring pattern belongs to:
+     * const { open = false } = props, function Dialog({ open = false })
+     */
+    function getBindingContext(node: TSESTree.Node): BooleanContext {
+      let current = node.parent;
+      while (current && PATTERN_NODE_TYPES.has(current.type)) {
+        current = current.parent;
       }
-      if (prefixes.length === 2) {
-        return `"${prefixes[0]}", or "${prefixes[1]}"`;
+
+      if (current?.type === 'VariableDeclarator') {
+        return getDeclaratorContext(current);
       }
-      const lastPrefix = prefixes[prefixes.length - 1];
-      const otherPrefixes = prefixes.slice(0, -1);
-      return `${otherPrefixes.map((p) => `"${p}"`).join(', ')}, or "${lastPrefix}"`;
+
+      const isParameter =
+        current?.type === 'ArrowFunctionExpression' ||
+        current?.type === 'FunctionDeclaration' ||
+        current?.type === 'FunctionExpression';
+      return isParameter && isComponentOrHookParameter(node, componentWrappers)
+        ? 'componentParameter'
+        : 'localVariable';
     }
 
-    function reportBooleanPrefixError(node: TSESTree.Node, name: string): void {
-      const suggested = suggestPrefixedName(name, allowedPrefixes);
-      const prefixes = formatPrefixes(allowedPrefixes);
+    /**
+     * Returns the binding identifier of a reported node, if it declares a renameable variable
+     */
+    function getBindingIdentifier(node: TSESTree.Node): TSESTree.Identifier | null {
+      if (node.type === 'Identifier') return node;
+      if (node.type === 'VariableDeclarator' && node.id.type === 'Identifier') return node.id;
+      if (node.type === 'AssignmentPattern' && node.left.type === 'Identifier') return node.left;
+      return null;
+    }
+
+    function reportBooleanPrefixError(
+      node: TSESTree.Node,
+      name: string,
+      booleanContext: BooleanContext,
+      suggested: string = suggestPrefixedName(name, getPrefixes(booleanContext))
+    ): void {
+      if (isIgnoredName(name)) return;
+
+      const prefixes = formatPrefixList(getPrefixes(booleanContext));
+
+      // Only bindings can be renamed safely; object keys and interface members are part of a contract
+      const identifier = getBindingIdentifier(node);
+      const renameFix = identifier ? createRenameFix(context.sourceCode, identifier, suggested) : null;
 
       context.report({
         data: {
+          context: BOOLEAN_CONTEXTS[booleanContext],
           name,
           prefixes,
           suggested,
         },
         messageId: 'booleanShouldStartWithPrefix',
         node,
+        suggest: renameFix
+          ? [
+              {
+                data: { name, suggested },
+                fix: renameFix,
+                messageId: 'renameBooleanIdentifier',
+              },
+            ]
+          : null,
       });
     }
 
+    /**
+     * Checks if a value creates boolean state with a state initialiser: atom(false).
+     * State hooks returning [state, setState] are checked through their array pattern instead.
+     */
+    function isBooleanStateInitializer(node: TSESTree.Expression | null): boolean {
+      if (node?.type !== 'CallExpression' || node.arguments.length === 0) return false;
+      if (!isStateInitializerCall(node, stateInitializers) || isStateHookCall(node, stateHooks)) return false;
+
+      const initialValue = node.arguments[0];
+      return (
+        initialValue.type !== 'SpreadElement' &&
+        (isBooleanLiteral(initialValue) || isLikelyBooleanExpression(initialValue))
+      );
+    }
+
+    /**
+     * Gets the context of a variable or of a default value in a destructuring pattern
+     */
+    function getVariableContext(node: TSESTree.VariableDeclarator | TSESTree.AssignmentPattern): BooleanContext {
+      if (node.type === 'AssignmentPattern') return getBindingContext(node);
+      if (isBooleanStateInitializer(node.init)) return 'stateValue';
+
+      return getDeclaratorContext(node);
+    }
+
     function checkBooleanVariable(node: TSESTree.VariableDeclarator | TSESTree.AssignmentPattern, name: string): void {
-      if (hasAnyValidPrefix(name, allowedPrefixes)) return;
+      const booleanContext = getVariableContext(node);
+      if (hasAnyValidPrefix(name, getPrefixes(booleanContext))) return;
 
       // Check if it's in a context we should ignore
       if (isInZodOmitOrPickMethod(node) || isInConstructorCall(node)) return;
 
+      // Check state created with a boolean initial value
+      if (node.type === 'VariableDeclarator' && booleanContext === 'stateValue') {
+        reportBooleanPrefixError(node, name, booleanContext);
+        return;
+      }
+
       // Check for boolean literal values
       if (node.type === 'VariableDeclarator' && node.init && isBooleanLiteral(node.init)) {
-        reportBooleanPrefixError(node, name);
+        reportBooleanPrefixError(node, name, booleanContext);
         return;
       }
       if (node.type === 'AssignmentPattern' && isBooleanLiteral(node.right)) {
-        reportBooleanPrefixError(node, name);
+        reportBooleanPrefixError(node, name, booleanContext);
         return;
       }
 
       // Check for boolean type annotation
       if (node.type === 'VariableDeclarator' && node.id.type === 'Identifier') {
         if (node.id.typeAnnotation && isBooleanType(node.id.typeAnnotation)) {
-          reportBooleanPrefixError(node, name);
+          reportBooleanPrefixError(node, name, booleanContext);
           return;
         }
       }
@@ -81,63 +339,164 @@ export const requireBooleanPrefixIs = createRule<[RuleOptions], 'booleanShouldSt
         // Skip nullish coalescing unless both operands are boolean
         if (node.init.type === 'LogicalExpression' && node.init.operator === '??') {
           if (isBooleanLiteral(node.init.left) || isBooleanLiteral(node.init.right)) {
-            reportBooleanPrefixError(node, name);
+            reportBooleanPrefixError(node, name, booleanContext);
           }
         } else {
-          reportBooleanPrefixError(node, name);
+          reportBooleanPrefixError(node, name, booleanContext);
         }
+        return;
       }
       if (node.type === 'AssignmentPattern' && isLikelyBooleanExpression(node.right)) {
         // Skip nullish coalescing unless both operands are boolean
         if (node.right.type === 'LogicalExpression' && node.right.operator === '??') {
           if (isBooleanLiteral(node.right.left) || isBooleanLiteral(node.right.right)) {
-            reportBooleanPrefixError(node, name);
+            reportBooleanPrefixError(node, name, booleanContext);
           }
         } else {
-          reportBooleanPrefixError(node, name);
+          reportBooleanPrefixError(node, name, booleanContext);
         }
+        return;
+      }
+
+      // Check values of hooks known to return a boolean: const open = useIsMobile()
+      if (
+        node.type === 'VariableDeclarator' &&
+        node.init?.type === 'CallExpression' &&
+        getKnownHookReturn(node.init) === true
+      ) {
+        reportBooleanPrefixError(node, name, booleanContext);
+        return;
+      }
+
+      // Fall back to the TypeScript checker for values the heuristics cannot classify
+      if (isBooleanTyped(node.type === 'VariableDeclarator' ? node.id : node.left)) {
+        reportBooleanPrefixError(node, name, booleanContext);
       }
     }
 
+    /**
+     * Checks that functions returning a boolean or a type guard are named like predicates when enabled
+     */
+    function checkPredicateFunction(nameNode: TSESTree.Node | null, fn: PredicateFunctionNode | null): void {
+      if (!checkPredicateFunctions || !fn || nameNode?.type !== 'Identifier') return;
+
+      // Hooks keep their use prefix: function useIsMobile(): boolean
+      const name = nameNode.name;
+      const prefixes = getPrefixes('predicateFunction');
+      if (/^use[A-Z]/.test(name) || hasAnyValidPrefix(name, prefixes) || !isPredicateFunction(fn)) return;
+
+      reportBooleanPrefixError(nameNode, name, 'predicateFunction', suggestPredicateName(name, prefixes));
+    }
+
     function checkArrayPattern(node: TSESTree.ArrayPattern): void {
       // Check useState destructuring
       const parent = node.parent;
       if (
         parent?.type === 'VariableDeclarator' &&
         parent.init?.type === 'CallExpression' &&
-        isUseStateWithBoolean(parent.init) &&
+        isUseStateWithBoolean(parent.init, stateHooks) &&
         node.elements.length > 0 &&
         node.elements[0]?.type === 'Identifier'
       ) {
         const stateVarName = node.elements[0].name;
-        if (!hasAnyValidPrefix(stateVarName, allowedPrefixes)) {
-          reportBooleanPrefixError(node.elements[0], stateVarName);
+        if (!hasAnyValidPrefix(stateVarName, getPrefixes('stateValue'))) {
+          reportBooleanPrefixError(node.elements[0], stateVarName, 'stateValue');
         }
+        return;
       }
-    }
 
-    function checkObjectProperty(node: TSESTree.Property): void {
+      // With type information, also check state whose initial value is not a boolean literal
       if (
-        node.key.type === 'Identifier' &&
-        !node.computed &&
-        node.value &&
-        !hasAnyValidPrefix(node.key.name, allowedPrefixes)
+        parent?.type === 'VariableDeclarator' &&
+        parent.init?.type === 'CallExpression' &&
+        isStateHookCall(parent.init, stateHooks) &&
+        node.elements[0]?.type === 'Identifier' &&
+        !hasAnyValidPrefix(node.elements[0].name, getPrefixes('stateValue')) &&
+        isBooleanTyped(node.elements[0])
+      ) {
+        reportBooleanPrefixError(node.elements[0], node.elements[0].name, 'stateValue');
+        return;
+      }
+
+      // With type information, also check values destructured from other hooks: const [on, toggle] = useToggle()
+      if (
+        typeInformation &&
+        parent?.type === 'VariableDeclarator' &&
+        parent.init?.type === 'CallExpression' &&
+        !isStateHookCall(parent.init, stateHooks) &&
+        getHookCallName(parent.init)
       ) {
+        const booleanContext = getDeclaratorContext(parent);
+        node.elements.forEach((element) => {
+          if (
+            element?.type === 'Identifier' &&
+            !hasAnyValidPrefix(element.name, getPrefixes(booleanContext)) &&
+            isBooleanTyped(element)
+          ) {
+            reportBooleanPrefixError(element, element.name, booleanContext);
+          }
+        });
+      }
+    }
+
+    /**
+     * Checks fields destructured from a hook's return value (const { loading } = useQuery()), using the configured
+     * boolean fields of the hook or the type checker
+     */
+    function checkHookReturnPattern(node: TSESTree.ObjectPattern): void {
+      const parent = node.parent;
+      if (parent?.type !== 'VariableDeclarator' || parent.init?.type !== 'CallExpression') return;
+      if (!getHookCallName(parent.init)) return;
+
+      const knownReturn = getKnownHookReturn(parent.init);
+      const booleanFields = Array.isArray(knownReturn) ? knownReturn : [];
+      const booleanContext = getDeclaratorContext(parent);
+
+      node.properties.forEach((prop) => {
+        // Defaults such as { loading = false } are already checked as assignment patterns
+        if (prop.type !== 'Property' || prop.computed || prop.key.type !== 'Identifier') return;
+        if (prop.value.type !== 'Identifier' || hasAnyValidPrefix(prop.value.name, getPrefixes(booleanContext))) return;
+
+        if (booleanFields.includes(prop.key.name) || isBooleanTyped(prop.value)) {
+          reportBooleanPrefixError(prop.value, prop.value.name, booleanContext);
+        }
+      });
+    }
+
+    function checkObjectProperty(node: TSESTree.Property): void {
+      // Destructuring patterns are handled by the parameter and variable checks
+      if (node.parent?.type === 'ObjectPattern') return;
+
+      if (node.key.type === 'Identifier' && !node.computed && node.value) {
         // Skip if in Zod omit/pick or constructor calls
         if (isInZodOmitOrPickMethod(node) || isInConstructorCall(node)) return;
 
-        // Skip if this is a function call argument
+        // Skip if this is a function call argument, unless the object is passed to or returned to a state
+        // initialiser: useReducer(reducer, { loading: false }), create(() => ({ visible: true }))
+        let booleanContext: BooleanContext = 'objectProperty';
+        let child: TSESTree.Node = node;
         let current: TSESTree.Node | undefined = node.parent;
         while (current) {
           if (current.type === 'CallExpression') {
-            return; // Skip function call arguments
+            const stateArgument = child;
+            if (
+              !isStateInitializerCall(current, stateInitializers) ||
+              !current.arguments.some((argument) => argument === stateArgument)
+            ) {
+              return; // Skip function call arguments
+            }
+            booleanContext = 'stateValue';
+            break;
           }
           if (current.type === 'VariableDeclarator' || current.type === 'AssignmentExpression') {
             break; // This is a variable assignment, proceed with checks
           }
+          child = current;
           current = current.parent || undefined;
         }
 
+        if (hasAnyValidPrefix(node.key.name, getPrefixes(booleanContext))) return;
+
         // Type guard to check if value is an Expression
         const isExpression = (val: unknown): val is TSESTree.Expression => {
           return (
@@ -152,62 +511,67 @@ export const requireBooleanPrefixIs = createRule<[RuleOptions], 'booleanShouldSt
 
         // Check for boolean literal values
         if (isExpression(node.value) && isBooleanLiteral(node.value)) {
-          reportBooleanPrefixError(node.key, node.key.name);
+          reportBooleanPrefixError(node.key, node.key.name, booleanContext);
           return;
         }
 
         // Check for boolean expressions
         if (isExpression(node.value) && isLikelyBooleanExpression(node.value)) {
-          reportBooleanPrefixError(node.key, node.key.name);
+          reportBooleanPrefixError(node.key, node.key.name, booleanContext);
+          return;
+        }
+
+        // Check the resolved type of the value
+        if (isExpression(node.value) && isBooleanTyped(node.value)) {
+          reportBooleanPrefixError(node.key, node.key.name, booleanContext);
         }
       }
     }
 
     function checkParameter(node: TSESTree.Parameter): void {
-      if (node.type === 'Identifier' && !hasAnyValidPrefix(node.name, allowedPrefixes)) {
+      if (node.type === 'Identifier' && !hasAnyValidPrefix(node.name, getPrefixes('componentParameter'))) {
         // Only check parameters in React components or hooks
-        if (!isComponentOrHookParameter(node)) return;
+        if (!isComponentOrHookParameter(node, componentWrappers)) return;
 
         // Check type annotation
-        if (node.typeAnnotation && isBooleanType(node.typeAnnotation)) {
-          reportBooleanPrefixError(node, node.name);
+        if ((node.typeAnnotation && isBooleanType(node.typeAnnotation)) || isBooleanTyped(node)) {
+          reportBooleanPrefixError(node, node.name, 'componentParameter');
         }
       } else if (node.type === 'AssignmentPattern' && node.left.type === 'Identifier') {
         const name = node.left.name;
-        if (!hasAnyValidPrefix(name, allowedPrefixes)) {
+        if (!hasAnyValidPrefix(name, getPrefixes('componentParameter'))) {
           // Only check parameters in React components or hooks
-          if (!isComponentOrHookParameter(node)) return;
+          if (!isComponentOrHookParameter(node, componentWrappers)) return;
 
           // Check for boolean default value
           if (isBooleanLiteral(node.right)) {
-            reportBooleanPrefixError(node.left, name);
+            reportBooleanPrefixError(node.left, name, 'componentParameter');
             return;
           }
 
           // Check type annotation
-          if (node.left.typeAnnotation && isBooleanType(node.left.typeAnnotation)) {
-            reportBooleanPrefixError(node.left, name);
+          if ((node.left.typeAnnotation && isBooleanType(node.left.typeAnnotation)) || isBooleanTyped(node.left)) {
+            reportBooleanPrefixError(node.left, name, 'componentParameter');
           }
         }
       }
     }
 
     function checkObjectPatternProperty(node: TSESTree.Property | TSESTree.RestElement): void {
-      if (
-        node.type === 'Property' &&
-        node.key.type === 'Identifier' &&
-        node.value.type === 'Identifier' &&
-        !hasAnyValidPrefix(node.value.name, allowedPrefixes)
-      ) {
-        // Check if this is a parameter destructuring in a component/hook
-        if (!isComponentOrHookParameter(node)) return;
-
-        // The property name in object destructuring is the same as the variable name
-        // So we need to check if the key (not value) has a boolean type annotation
-        // But in parameter destructuring, we need to check the original interface/type
-        // For now, let's check if the destructured property has boolean type annotation
-        if (node.value.typeAnnotation && isBooleanType(node.value.typeAnnotation)) {
-          reportBooleanPrefixError(node.value, node.value.name);
+      if (node.type !== 'Property' || node.key.type !== 'Identifier' || node.value.type !== 'Identifier') return;
+
+      // Variables destructured in a component or hook body: const { open } = props
+      const booleanContext = getBindingContext(node.value);
+      if (!hasAnyValidPrefix(node.value.name, getPrefixes(booleanContext))) {
+        // Only destructuring inside components and hooks is checked
+        if (!isComponentOrHookParameter(node, componentWrappers)) return;
+
+        // The boolean type comes from an inline annotation on the pattern or from the type checker:
+        // const { open }: { open: boolean } = props
+        const isAnnotatedBoolean =
+          node.parent.type === 'ObjectPattern' && getAnnotatedBooleanMembers(node.parent).has(node.key.name);
+        if (isAnnotatedBoolean || isBooleanTyped(node.value)) {
+          reportBooleanPrefixError(node.value, node.value.name, booleanContext);
         }
       }
     }
@@ -215,49 +579,37 @@ export const requireBooleanPrefixIs = createRule<[RuleOptions], 'booleanShouldSt
     function checkInterfaceProperty(node: TSESTree.TSPropertySignature): void {
       if (
         node.key.type === 'Identifier' &&
-        !hasAnyValidPrefix(node.key.name, allowedPrefixes) &&
-        node.typeAnnotation &&
-        isBooleanType(node.typeAnnotation)
+        !hasAnyValidPrefix(node.key.name, getPrefixes('interfaceMember')) &&
+        ((node.typeAnnotation && isBooleanType(node.typeAnnotation)) || isBooleanTyped(node.key))
       ) {
-        reportBooleanPrefixError(node.key, node.key.name);
+        reportBooleanPrefixError(node.key, node.key.name, 'interfaceMember');
       }
     }
 
     function checkClassProperty(node: TSESTree.PropertyDefinition): void {
-      if (node.key.type === 'Identifier' && !hasAnyValidPrefix(node.key.name, allowedPrefixes)) {
+      if (node.key.type === 'Identifier' && !hasAnyValidPrefix(node.key.name, getPrefixes('classProperty'))) {
         // Check for boolean value
         if (node.value && isBooleanLiteral(node.value)) {
-          reportBooleanPrefixError(node.key, node.key.name);
+          reportBooleanPrefixError(node.key, node.key.name, 'classProperty');
           return;
         }
 
         // Check for boolean type annotation
-        if (node.typeAnnotation && isBooleanType(node.typeAnnotation)) {
-          reportBooleanPrefixError(node.key, node.key.name);
+        if ((node.typeAnnotation && isBooleanType(node.typeAnnotation)) || isBooleanTyped(node.key)) {
+          reportBooleanPrefixError(node.key, node.key.name, 'classProperty');
         }
       }
     }
 
     function checkParameterPattern(node: TSESTree.ObjectPattern): void {
       // Check if this is a React component or hook parameter
-      if (!isComponentOrHookParameter(node)) return;
+      if (!isComponentOrHookParameter(node, componentWrappers)) return;
 
       // Get the type annotation from the parameter
       const typeAnnotation = node.typeAnnotation?.typeAnnotation;
-      if (!typeAnnotation || typeAnnotation.type !== 'TSTypeLiteral') return;
+      if (!typeInformation && (!typeAnnotation || typeAnnotation.type !== 'TSTypeLiteral')) return;
 
-      // Create a map of property types
-      const propertyTypes: Map<string, boolean> = new Map();
-      typeAnnotation.members.forEach((member) => {
-        if (
-          member.type === 'TSPropertySignature' &&
-          member.key.type === 'Identifier' &&
-          member.typeAnnotation &&
-          isBooleanType(member.typeAnnotation)
-        ) {
-          propertyTypes.set(member.key.name, true);
-        }
-      });
+      const propertyTypes = getAnnotatedBooleanMembers(node);
 
       // Check each destructured property
       node.properties.forEach((prop) => {
@@ -265,10 +617,10 @@ export const requireBooleanPrefixIs = createRule<[RuleOptions], 'booleanShouldSt
           prop.type === 'Property' &&
           prop.key.type === 'Identifier' &&
           prop.value.type === 'Identifier' &&
-          !hasAnyValidPrefix(prop.value.name, allowedPrefixes) &&
-          propertyTypes.has(prop.key.name)
+          !hasAnyValidPrefix(prop.value.name, getPrefixes('componentParameter')) &&
+          (propertyTypes.has(prop.key.name) || isBooleanTyped(prop.value))
         ) {
-          reportBooleanPrefixError(prop.value, prop.value.name);
+          reportBooleanPrefixError(prop.value, prop.value.name, 'componentParameter');
         }
       });
     }
@@ -280,31 +632,56 @@ export const requireBooleanPrefixIs = createRule<[RuleOptions], 'booleanShouldSt
           checkBooleanVariable(node, node.left.name);
         }
       },
+      FunctionDeclaration(node) {
+        checkPredicateFunction(node.id, node);
+      },
       'FunctionDeclaration > :first-child[type="Identifier"]'(node: TSESTree.Identifier) {
         checkParameter(node);
       },
+      'MethodDefinition[kind="method"]'(node: TSESTree.MethodDefinition) {
+        // Overload signatures have no body and are covered by the implementation
+        if (!node.computed && node.value.type === 'FunctionExpression') {
+          checkPredicateFunction(node.key, node.value);
+        }
+      },
       'MethodDefinition[value.params] > FunctionExpression > :first-child[type="Identifier"]'(
         node: TSESTree.Identifier
       ) {
         checkParameter(node);
       },
       ObjectPattern(node) {
-        // Check if this is a parameter pattern first
-        checkParameterPattern(node);
-        // Then check for variable destructuring patterns
-        if (node.parent?.type === 'VariableDeclarator') {
-          node.properties.forEach((prop) => {
-            checkObjectPatternProperty(prop);
-          });
+        // Parameter and variable destructuring are checked separately, so each binding is reported once
+        if (isParameterPattern(node)) {
+          checkParameterPattern(node);
+        } else if (node.parent?.type === 'VariableDeclarator') {
+          // Fields of a hook's return value are only checked as such: const { loading } = useQuery()
+          if (node.parent.init?.type === 'CallExpression' && getHookCallName(node.parent.init)) {
+            checkHookReturnPattern(node);
+          } else {
+            node.properties.forEach((prop) => {
+              checkObjectPatternProperty(prop);
+            });
+          }
+        }
+      },
+      'Property[kind="init"]'(node: TSESTree.Property) {
+        checkObjectProperty(node);
+        if (!node.computed && node.parent?.type === 'ObjectExpression') {
+          checkPredicateFunction(node.key, getAssignedFunction(node.value));
+        }
+      },
+      PropertyDefinition(node) {
+        checkClassProperty(node);
+        if (!node.computed) {
+          checkPredicateFunction(node.key, getAssignedFunction(node.value));
         }
       },
-      'Property[kind="init"]': checkObjectProperty,
-      PropertyDefinition: checkClassProperty,
       'TSInterfaceDeclaration TSPropertySignature': checkInterfaceProperty,
       'TSTypeAliasDeclaration TSPropertySignature': checkInterfaceProperty,
       VariableDeclarator(node) {
         if (node.id.type === 'Identifier') {
           checkBooleanVariable(node, node.id.name);
+          checkPredicateFunction(node.id, getAssignedFunction(node.init));
         }
       },
     };
@@ -315,9 +692,11 @@ export const requireBooleanPrefixIs = createRule<[RuleOptions], 'booleanShouldSt
       description:
         'Enforce boolean variables, state, and props to start with "is" prefix (or custom prefixes) in developer-controlled contexts',
     },
+    hasSuggestions: true,
     messages: {
       booleanShouldStartWithPrefix:
-        'Boolean identifier "{{name}}" should start with {{prefixes}} prefix. Consider renaming to "{{suggested}}".',
+        'Boolean {{context}} "{{name}}" should start with {{prefixes}} prefix. Consider renaming to "{{suggested}}".',
+      renameBooleanIdentifier: 'Rename "{{name}}" to "{{suggested}}"',
     },
     schema: [
       {
@@ -327,6 +706,35 @@ export const requireBooleanPrefixIs = createRule<[RuleOptions], 'booleanShouldSt
             items: { type: 'string' },
             type: 'array',
           },
+          assumePrefixedHooksReturnBoolean: {
+            type: 'boolean',
+          },
+          booleanHookReturns: {
+            additionalProperties: {
+              anyOf: [{ type: 'boolean' }, { items: { type: 'string' }, type: 'array' }],
+            },
+            type: 'object',
+          },
+          checkPredicateFunctions: {
+            type: 'boolean',
+          },
+          contextPrefixes: {
+            additionalProperties: false,
+            properties: Object.fromEntries(
+              Object.keys(BOOLEAN_CONTEXTS).map((booleanContext) => [
+                booleanContext,
+                { items: { type: 'string' }, type: 'array' },
+              ])
+            ),
+            type: 'object',
+          },
+          ignore: {
+            items: { type: 'string' },
+            type: 'array',
+          },
+          useTypeInformation: {
+            type: 'boolean',
+          },
         },
         type: 'object',
       },
@@ -4,9 +4,12 @@ import {
   createRule,
   countLogicalOperators,
   containsJSX,
-  suggestUnderscorePrefix,
-  hasUnderscorePrefix,
+  suggestDerivedPrefixedName,
+  hasDerivedPrefix,
+  formatPrefixList,
   isDerivedBooleanExpression,
+  createRenameFix,
+  createIgnoreMatcher,
 } from '../utils';
 
 // Use shared naming utilities from utils
@@ -53,25 +56,55 @@ function isComplexDerivedExpression(node: TSESTree.Expression): boolean {
 
 // Use shared JSX detection utility from utils
 
-export const requireDerivedConditionalPrefix = createRule({
-  create(context) {
+export interface RuleOptions {
+  allowedPrefixes?: string[];
+  ignore?: string[];
+}
+
+const DEFAULT_OPTIONS: RuleOptions = {
+  allowedPrefixes: ['_'],
+  ignore: [],
+};
+
+export const requireDerivedConditionalPrefix = createRule<
+  [RuleOptions],
+  'derivedConditionalShouldStartWithUnderscore' | 'renameDerivedConditional'
+>({
+  create(context, [options = DEFAULT_OPTIONS]) {
+    const { allowedPrefixes = ['_'], ignore } = options;
+    const isIgnoredName = createIgnoreMatcher(ignore);
+
     // Keep track of derived conditional variables
     const derivedConditionals = new Set<string>();
-    const variableNodes = new Map<string, TSESTree.Node>();
+    const variableNodes = new Map<string, TSESTree.Identifier>();
 
     /**
-     * Reports an error for a derived conditional variable that doesn't start with underscore
+     * Reports an error for a derived conditional variable that doesn't start with an allowed prefix,
+     * suggesting a rename of the variable and all its references using the first prefix
      */
-    function reportDerivedConditional(node: TSESTree.Node, name: string): void {
-      if (hasUnderscorePrefix(name)) return;
+    function reportDerivedConditional(node: TSESTree.Identifier, name: string): void {
+      if (allowedPrefixes.some((prefix) => hasDerivedPrefix(name, prefix)) || isIgnoredName(name)) return;
+
+      const suggested = suggestDerivedPrefixedName(name, allowedPrefixes[0]);
+      const renameFix = createRenameFix(context.sourceCode, node, suggested);
 
       context.report({
         data: {
           name,
-          suggested: suggestUnderscorePrefix(name),
+          prefixes: formatPrefixList(allowedPrefixes),
+          suggested,
         },
         messageId: 'derivedConditionalShouldStartWithUnderscore',
         node,
+        suggest: renameFix
+          ? [
+              {
+                data: { name, suggested },
+                fix: renameFix,
+                messageId: 'renameDerivedConditional',
+              },
+            ]
+          : null,
       });
     }
 
@@ -176,17 +209,36 @@ export const requireDerivedConditionalPrefix = createRule({
       },
     };
   },
-  defaultOptions: [],
+  defaultOptions: [DEFAULT_OPTIONS],
   meta: {
     docs: {
-      description: 'Enforce derived conditional variables used in JSX to start with underscore prefix',
+      description:
+        'Enforce derived conditional variables used in JSX to start with underscore prefix (or custom prefixes)',
     },
     fixable: undefined,
+    hasSuggestions: true,
     messages: {
       derivedConditionalShouldStartWithUnderscore:
-        'Derived conditional variable "{{name}}" used in JSX rendering should start with underscore prefix. Consider using "{{suggested}}" instead.',
+        'Derived conditional variable "{{name}}" used in JSX rendering should start with {{prefixes}} prefix. Consider using "{{suggested}}" instead.',
+      renameDerivedConditional: 'Rename "{{name}}" to "{{suggested}}"',
     },
-    schema: [],
+    schema: [
+      {
+        additionalProperties: false,
+        properties: {
+          allowedPrefixes: {
+            items: { type: 'string' },
+            minItems: 1,
+            type: 'array',
+          },
+          ignore: {
+            items: { type: 'string' },
+            type: 'array',
+          },
+        },
+        type: 'object',
+      },
+    ],
     type: 'suggestion',
   },
   name: 'require-derived-conditional-prefix',
@@ -1,34 +1,91 @@
+import { AST_NODE_TYPES, TSESTree } from '@typescript-eslint/utils';
+
 import { createRule } from '../utils';
 
-export const requireJsxStringBraces = createRule({
-  create(context) {
+type BraceMode = 'always' | 'never';
+
+export interface RuleOptions {
+  mode: BraceMode;
+  overrides: Record<string, BraceMode>;
+}
+
+const DEFAULT_OPTIONS: RuleOptions = {
+  mode: 'always',
+  overrides: {},
+};
+
+/**
+ * Matches character references that JSX decodes inside attribute strings (e.g., &amp;, &#169;, &#xA9;)
+ */
+const HTML_ENTITY_PATTERN = /&(?:#\d+|#x[\da-f]+|[a-z][\da-z]*);/i;
+
+/**
+ * Creates a JavaScript string literal for a decoded attribute value, escaping backslashes and the quote
+ */
+function toStringLiteral(value: string, quote: string): string {
+  const escaped = value.replace(/\\/g, '\\\\').replace(new RegExp(quote, 'g'), `\\${quote}`);
+  return `${quote}${escaped}${quote}`;
+}
+
+/**
+ * Creates a template literal for a decoded multi-line attribute value
+ */
+function toTemplateLiteral(value: string): string {
+  const escaped = value.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  return `\`${escaped}\``;
+}
+
+/**
+ * Gets the string value of a braced expression that could be written as a plain attribute string
+ * ("x", 'x' or `x` without expressions)
+ */
+function getStaticStringValue(node: TSESTree.Expression | TSESTree.JSXEmptyExpression): string | null {
+  if (node.type === AST_NODE_TYPES.Literal && typeof node.value === 'string') {
+    return node.value;
+  }
+
+  if (node.type === AST_NODE_TYPES.TemplateLiteral && node.expressions.length === 0) {
+    return node.quasis[0].value.cooked;
+  }
+
+  return null;
+}
+
+export const requireJsxStringBraces = createRule<[RuleOptions], 'disallowBraces' | 'requireBraces'>({
+  create(context, [options = DEFAULT_OPTIONS]) {
+    const { mode, overrides } = options;
+
     return {
       JSXAttribute(node) {
-        if (node.value && node.value.type === 'Literal' && typeof node.value.value === 'string') {
-          const attributeName =
-            node.name.type === 'JSXIdentifier'
-              ? node.name.name
-              : node.name.type === 'JSXNamespacedName'
-                ? `${node.name.namespace.name}:${node.name.name.name}`
-                : 'attribute';
+        if (!node.value) return;
+
+        const attributeName =
+          node.name.type === 'JSXIdentifier'
+            ? node.name.name
+            : node.name.type === 'JSXNamespacedName'
+              ? `${node.name.namespace.name}:${node.name.name.name}`
+              : 'attribute';
+        const attributeMode = overrides[attributeName] ?? mode;
+
+        if (attributeMode === 'always' && node.value.type === 'Literal' && typeof node.value.value === 'string') {
+          const stringValue = node.value.value;
 
           context.report({
             data: {
               attribute: attributeName,
-              value: String(node.value.value),
+              value: stringValue,
             },
             fix(fixer) {
               if (node.value && node.value.type === 'Literal' && typeof node.value.raw === 'string') {
                 const quote = node.value.raw.charAt(0);
-                const innerValue = node.value.raw.slice(1, -1);
 
-                // check if the string contains line breaks
-                if (innerValue.includes('\n')) {
+                // The decoded value is used so that HTML entities keep their meaning inside JavaScript strings
+                if (stringValue.includes('\n')) {
                   // convert to template literal for multi-line strings
-                  return fixer.replaceText(node.value, `{\`${innerValue.replace(/`/g, '\\`')}\`}`);
+                  return fixer.replaceText(node.value, `{${toTemplateLiteral(stringValue)}}`);
                 } else {
                   // keep as regular string literal for single-line strings
-                  return fixer.replaceText(node.value, `{${quote}${innerValue}${quote}}`);
+                  return fixer.replaceText(node.value, `{${toStringLiteral(stringValue, quote)}}`);
                 }
               }
               return null;
@@ -37,19 +94,75 @@ export const requireJsxStringBraces = createRule({
             node: node.value,
           });
         }
+
+        if (attributeMode === 'never' && node.value.type === 'JSXExpressionContainer') {
+          const expression = node.value.expression;
+          const stringValue = getStaticStringValue(expression);
+          if (stringValue === null) return;
+
+          // Strings with escape sequences, HTML entity text or both quote kinds can't be written without braces
+          const raw = context.sourceCode.getText(expression);
+          if (
+            raw.includes('\\') ||
+            HTML_ENTITY_PATTERN.test(stringValue) ||
+            (stringValue.includes('"') && stringValue.includes("'"))
+          ) {
+            return;
+          }
+
+          const container = node.value;
+
+          context.report({
+            data: {
+              attribute: attributeName,
+              value: stringValue,
+            },
+            fix(fixer) {
+              // Keep comments written inside the braces
+              if (context.sourceCode.getCommentsInside(container).length > 0) {
+                return null;
+              }
+
+              const quote = stringValue.includes('"') ? "'" : '"';
+              return fixer.replaceText(container, `${quote}${stringValue}${quote}`);
+            },
+            messageId: 'disallowBraces',
+            node: container,
+          });
+        }
       },
     };
   },
-  defaultOptions: [],
+  defaultOptions: [DEFAULT_OPTIONS],
   meta: {
     docs: {
       description: 'Require curly braces around string literals in JSX attributes',
     },
     fixable: 'code',
     messages: {
+      disallowBraces:
+        'String literals in JSX attributes should not be wrapped in curly braces: {{attribute}}="{{value}}"',
       requireBraces: 'String literals in JSX attributes should be wrapped in curly braces: {{attribute}}={"{{value}}"}',
     },
-    schema: [],
+    schema: [
+      {
+        additionalProperties: false,
+        properties: {
+          mode: {
+            enum: ['always', 'never'],
+            type: 'string',
+          },
+          overrides: {
+            additionalProperties: {
+              enum: ['always', 'never'],
+              type: 'string',
+            },
+            type: 'object',
+          },
+        },
+        type: 'object',
+      },
+    ],
     type: 'suggestion',
   },
   name: 'require-jsx-string-braces',
@@ -138,3 +138,41 @@ export function isComplexOperand(node: TSESTree.Expression): boolean {
 
   return false;
 }
+
+/**
+ * Gets the dotted name of a callee (e.g., cn, React.forwardRef, styles.cx), or null for computed callees
+ */
+export function getCalleeName(callee: TSESTree.Expression): string | null {
+  if (callee.type === AST_NODE_TYPES.Identifier) {
+    return callee.name;
+  }
+
+  // Member calls such as React.memo or styles.cx
+  if (
+    callee.type === AST_NODE_TYPES.MemberExpression &&
+    !callee.computed &&
+    callee.property.type === AST_NODE_TYPES.Identifier
+  ) {
+    const objectName = getCalleeName(callee.object);
+    return objectName ? `${objectName}.${callee.property.name}` : null;
+  }
+
+  return null;
+}
+
+/**
+ * Skips type assertions around an expression, e.g. `forwardRef(Select) as <T>(props: SelectProps<T>) => JSX.Element`
+ */
+export function skipTypeAssertions(node: TSESTree.Expression): TSESTree.Expression {
+  let current = node;
+  while (
+    current.type === AST_NODE_TYPES.TSAsExpression ||
+    current.type === AST_NODE_TYPES.TSSatisfiesExpression ||
+    current.type === AST_NODE_TYPES.TSTypeAssertion ||
+    current.type === AST_NODE_TYPES.TSNonNullExpression
+  ) {
+    current = current.expression;
+  }
+
+  return current;
+}
@@ -0,0 +1,230 @@
+import { AST_NODE_TYPES, TSESLint, TSESTree } from '@typescript-eslint/utils';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getJSXElementName } from './jsx-utils';
+import { getPluginSettings } from './settings-utils';
+
+export const BASELINE_VERSION = 1;
+
+/**
+ * Recorded violations per file (relative to the baseline file) and fingerprint, with the number of occurrences
+ */
+export interface Baseline {
+  files: Record<string, Record<string, number>>;
+  version: typeof BASELINE_VERSION;
+}
+
+// Parsed baseline files, reloaded when the file changes on disk
+const baselineCache = new Map<string, { baseline: Baseline; mtimeMs: number }>();
+
+// Number of baselined occurrences already used to suppress reports, per linted file
+const suppressedCounts = new WeakMap<object, Map<string, number>>();
+
+/**
+ * A report recorded while generating a baseline, located like the lint message it produces
+ */
+export interface RecordedReport {
+  column: number;
+  fingerprint: string;
+  line: number;
+  ruleName: string;
+}
+
+// Reports recorded per linted file while a baseline is generated. Kept on globalThis so that the plugin
+// loaded by ESLint and the baseline generator share it even when they are loaded from different paths.
+const RECORDER_KEY = Symbol.for('eslint-plugin-react-snob.baselineRecorder');
+
+type RecorderGlobal = typeof globalThis & { [RECORDER_KEY]?: Map<string, RecordedReport[]> };
+
+/**
+ * Gets the name a node declares or is keyed by, if any
+ * (e.g., the id of a declaration, the key of a property, the name of a JSX attribute)
+ */
+function getOwnNodeName(node: TSESTree.Node): string | null {
+  switch (node.type) {
+    case AST_NODE_TYPES.Identifier:
+    case AST_NODE_TYPES.JSXIdentifier:
+      return node.name;
+
+    case AST_NODE_TYPES.JSXNamespacedName:
+      return `${node.namespace.name}:${node.name.name}`;
+
+    case AST_NODE_TYPES.JSXAttribute:
+      return getOwnNodeName(node.name);
+
+    case AST_NODE_TYPES.JSXElement:
+      return getJSXElementName(node.openingElement.name);
+
+    case AST_NODE_TYPES.AssignmentPattern:
+      return getOwnNodeName(node.left);
+
+    case AST_NODE_TYPES.ClassDeclaration:
+    case AST_NODE_TYPES.ClassExpression:
+    case AST_NODE_TYPES.FunctionDeclaration:
+    case AST_NODE_TYPES.FunctionExpression:
+    case AST_NODE_TYPES.TSEnumDeclaration:
+    case AST_NODE_TYPES.TSInterfaceDeclaration:
+    case AST_NODE_TYPES.TSTypeAliasDeclaration:
+    case AST_NODE_TYPES.VariableDeclarator:
+      return node.id ? getOwnNodeName(node.id) : null;
+
+    case AST_NODE_TYPES.MethodDefinition:
+    case AST_NODE_TYPES.Property:
+    case AST_NODE_TYPES.PropertyDefinition:
+    case AST_NODE_TYPES.TSPropertySignature:
+      if (node.computed) return null;
+      if (node.key.type === AST_NODE_TYPES.Literal) return String(node.key.value);
+      return getOwnNodeName(node.key);
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Gets the name identifying a reported node: its own name, or the name of the closest named ancestor for nodes
+ * without one (e.g., a style literal is named after its property, an arrow function after its variable)
+ */
+export function getBaselineNodeName(node: TSESTree.Node): string {
+  for (let current: TSESTree.Node | undefined = node; current; current = current.parent) {
+    const name = getOwnNodeName(current);
+    if (name) return name;
+  }
+
+  return '';
+}
+
+/**
+ * Creates a stable fingerprint for a report from the rule name, the reported node kind and its name,
+ * so that unrelated edits moving code around don't invalidate the baseline
+ */
+export function getBaselineFingerprint(ruleName: string, node: TSESTree.Node): string {
+  return `${ruleName}:${node.type}:${getBaselineNodeName(node)}`;
+}
+
+/**
+ * Starts recording the reports of every rule, returning the recorded reports per linted file
+ */
+export function startBaselineRecording(): Map<string, RecordedReport[]> {
+  const recorded = new Map<string, RecordedReport[]>();
+  (globalThis as RecorderGlobal)[RECORDER_KEY] = recorded;
+  return recorded;
+}
+
+/**
+ * Stops recording reports
+ */
+export function stopBaselineRecording(): void {
+  delete (globalThis as RecorderGlobal)[RECORDER_KEY];
+}
+
+/**
+ * Gets the key of a linted file in the baseline: its path relative to the baseline file, with forward slashes
+ */
+export function getBaselineFileKey(baselinePath: string, filename: string): string {
+  return path.relative(path.dirname(baselinePath), filename).split(path.sep).join('/');
+}
+
+/**
+ * Reads a baseline file, returning null when it doesn't exist yet
+ */
+export function readBaseline(baselinePath: string): Baseline | null {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(baselinePath).mtimeMs;
+  } catch {
+    return null;
+  }
+
+  const cached = baselineCache.get(baselinePath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.baseline;
+  }
+
+  const baseline = JSON.parse(fs.readFileSync(baselinePath, 'utf8')) as Baseline;
+  if (baseline.version !== BASELINE_VERSION || typeof baseline.files !== 'object') {
+    throw new Error(`Unsupported react-snob baseline file: ${baselinePath}`);
+  }
+
+  baselineCache.set(baselinePath, { baseline, mtimeMs });
+  return baseline;
+}
+
+/**
+ * Gets the start of the location a report is shown at, as ESLint does: the explicit location or the node's
+ */
+function getReportStart(
+  descriptor: TSESLint.ReportDescriptor<string>,
+  node: TSESTree.Node
+): { column: number; line: number } {
+  const loc = 'loc' in descriptor && descriptor.loc ? descriptor.loc : node.loc;
+  return 'start' in loc ? loc.start : loc;
+}
+
+/**
+ * Wraps a rule context so that reports recorded in the baseline file configured in
+ * `settings['react-snob'].baseline` are suppressed, while new reports go through.
+ * While a baseline is generated, reports are recorded with their fingerprint instead.
+ */
+export function withBaselineSuppression<Context extends TSESLint.RuleContext<string, readonly unknown[]>>(
+  context: Context,
+  ruleName: string
+): Context {
+  const recorded = (globalThis as RecorderGlobal)[RECORDER_KEY];
+  if (recorded) {
+    return Object.create(context, {
+      report: {
+        value(descriptor: TSESLint.ReportDescriptor<string>) {
+          if ('node' in descriptor) {
+            const node = descriptor.node as TSESTree.Node;
+            const { column, line } = getReportStart(descriptor, node);
+            const fileReports = recorded.get(context.filename) ?? [];
+            fileReports.push({
+              column: column + 1,
+              fingerprint: getBaselineFingerprint(ruleName, node),
+              line,
+              ruleName,
+            });
+            recorded.set(context.filename, fileReports);
+          }
+
+          context.report(descriptor);
+        },
+      },
+    }) as Context;
+  }
+
+  const { baseline: baselineSetting } = getPluginSettings(context);
+  if (!baselineSetting) return context;
+
+  const baselinePath = path.resolve(context.cwd, baselineSetting);
+  const fileFingerprints = readBaseline(baselinePath)?.files[getBaselineFileKey(baselinePath, context.filename)];
+  if (!fileFingerprints) return context;
+
+  let counts = suppressedCounts.get(context.sourceCode);
+  if (!counts) {
+    counts = new Map();
+    suppressedCounts.set(context.sourceCode, counts);
+  }
+  const fileCounts = counts;
+
+  return Object.create(context, {
+    report: {
+      value(descriptor: TSESLint.ReportDescriptor<string>) {
+        if ('node' in descriptor) {
+          const node = descriptor.node as TSESTree.Node;
+          const fingerprint = getBaselineFingerprint(ruleName, node);
+          const suppressed = fileCounts.get(fingerprint) ?? 0;
+
+          if (suppressed < (fileFingerprints[fingerprint] ?? 0)) {
+            fileCounts.set(fingerprint, suppressed + 1);
+            return;
+          }
+        }
+
+        context.report(descriptor);
+      },
+    },
+  }) as Context;
+}
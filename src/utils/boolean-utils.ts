@@ -1,5 +1,8 @@
 import { TSESTree, AST_NODE_TYPES } from '@typescript-eslint/utils';
 
+import { getCalleeName } from './ast-traversal';
+import { DEFAULT_STATE_HOOKS, DEFAULT_STATE_INITIALIZERS } from './settings-utils';
+
 /**
  * Checks if a type annotation is boolean or includes boolean
  */
@@ -116,10 +119,44 @@ export function isDerivedBooleanExpression(node: TSESTree.Expression): boolean {
 }
 
 /**
- * Checks if a CallExpression is a useState call with a boolean initial value
+ * Checks if a CallExpression calls one of the configured state hooks (e.g., useState, React.useState)
+ */
+export function isStateHookCall(node: TSESTree.CallExpression, stateHooks: string[] = DEFAULT_STATE_HOOKS): boolean {
+  const calleeName = getCalleeName(node.callee);
+  return calleeName !== null && stateHooks.includes(calleeName);
+}
+
+/**
+ * Checks if a CallExpression calls one of the configured state initialisers (e.g., useReducer, zustand create,
+ * jotai atom), whose arguments hold state. Curried calls such as create<State>()(...) are matched on the inner callee.
+ */
+export function isStateInitializerCall(
+  node: TSESTree.CallExpression,
+  stateInitializers: string[] = DEFAULT_STATE_INITIALIZERS
+): boolean {
+  const callee = node.callee.type === AST_NODE_TYPES.CallExpression ? node.callee.callee : node.callee;
+  const calleeName = getCalleeName(callee);
+  return calleeName !== null && stateInitializers.includes(calleeName);
+}
+
+/**
+ * Gets the callee name of a hook call (e.g., useIsMobile, Apollo.useQuery), or null when the callee is not a hook
+ */
+export function getHookCallName(node: TSESTree.CallExpression): string | null {
+  const calleeName = getCalleeName(node.callee);
+  const hookName = calleeName?.split('.').pop() ?? '';
+
+  return /^use[A-Z0-9]/.test(hookName) ? calleeName : null;
+}
+
+/**
+ * Checks if a CallExpression is a state hook call (useState by default) with a boolean initial value
  */
-export function isUseStateWithBoolean(node: TSESTree.CallExpression): boolean {
-  if (node.callee.type !== 'Identifier' || node.callee.name !== 'useState') {
+export function isUseStateWithBoolean(
+  node: TSESTree.CallExpression,
+  stateHooks: string[] = DEFAULT_STATE_HOOKS
+): boolean {
+  if (!isStateHookCall(node, stateHooks)) {
     return false;
   }
 
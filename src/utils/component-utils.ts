@@ -1,4 +1,184 @@
 import { TSESTree } from '@typescript-eslint/utils';
+import * as path from 'path';
+
+import { getCalleeName, skipTypeAssertions } from './ast-traversal';
+import { containsJSX } from './jsx-utils';
+import { DEFAULT_COMPONENT_WRAPPERS } from './settings-utils';
+
+type FunctionNode = TSESTree.ArrowFunctionExpression | TSESTree.FunctionDeclaration | TSESTree.FunctionExpression;
+
+// Type annotations that mark a variable as a component (e.g., const Button: FC<ButtonProps> = ...)
+const COMPONENT_TYPE_NAMES = ['FC', 'FunctionComponent', 'VFC', 'VoidFunctionComponent', 'ComponentType'];
+
+// Detection results per node and wrapper list, shared by every rule linting the same file
+const componentCache = new WeakMap<TSESTree.Node, Map<string, boolean>>();
+
+function isFunctionNode(node: TSESTree.Node): node is FunctionNode {
+  return (
+    node.type === 'ArrowFunctionExpression' || node.type === 'FunctionDeclaration' || node.type === 'FunctionExpression'
+  );
+}
+
+/**
+ * Checks if a name follows the PascalCase component convention, excluding CONSTANT_CASE names like API_URL
+ */
+function isComponentName(name: string): boolean {
+  return /^[A-Z]/.test(name) && /[a-z]/.test(name) && !name.includes('_');
+}
+
+/**
+ * Checks if any node in a function body matches a predicate, without descending into nested functions
+ */
+function someInFunctionBody(fn: FunctionNode, predicate: (node: TSESTree.Node) => boolean): boolean {
+  function visit(node: TSESTree.Node): boolean {
+    if (predicate(node)) return true;
+    if (node !== fn && isFunctionNode(node)) return false;
+
+    for (const key in node) {
+      if (key === 'parent') continue; // Skip parent references to avoid cycles
+
+      const value = (node as unknown as Record<string, unknown>)[key];
+      const children = Array.isArray(value) ? value : [value];
+      for (const child of children) {
+        if (child && typeof child === 'object' && 'type' in child && visit(child as TSESTree.Node)) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  return visit(fn.body);
+}
+
+/**
+ * Checks if a node renders JSX directly or through React.createElement
+ */
+function isRenderedOutput(node: TSESTree.Node): boolean {
+  if (containsJSX(node)) return true;
+
+  if (node.type === 'CallExpression') {
+    const calleeName = getCalleeName(node.callee);
+    return calleeName === 'createElement' || calleeName === 'React.createElement';
+  }
+
+  return false;
+}
+
+/**
+ * Checks if a function returns JSX from its own body (not from nested callbacks)
+ */
+function returnsJSX(fn: FunctionNode): boolean {
+  if (fn.body.type !== 'BlockStatement') {
+    return isRenderedOutput(fn.body);
+  }
+
+  return someInFunctionBody(
+    fn,
+    (node) => node.type === 'ReturnStatement' && node.argument !== null && isRenderedOutput(node.argument)
+  );
+}
+
+/**
+ * Checks if a function calls hooks (useState, React.useEffect, useCustomHook, etc.) from its own body
+ */
+function callsHooks(fn: FunctionNode): boolean {
+  return someInFunctionBody(fn, (node) => {
+    if (node.type !== 'CallExpression') return false;
+
+    const calleeName = getCalleeName(node.callee);
+    return calleeName !== null && /^(?:React\.)?use[A-Z]/.test(calleeName);
+  });
+}
+
+/**
+ * Checks if a function body shows component evidence: it returns JSX or calls hooks
+ */
+function hasComponentEvidence(fn: FunctionNode): boolean {
+  return returnsJSX(fn) || callsHooks(fn);
+}
+
+/**
+ * Checks if a variable is annotated with a component type (FC, React.FunctionComponent, etc.)
+ */
+function hasComponentTypeAnnotation(id: TSESTree.Identifier): boolean {
+  const typeAnnotation = id.typeAnnotation?.typeAnnotation;
+  if (typeAnnotation?.type !== 'TSTypeReference') return false;
+
+  const typeName =
+    typeAnnotation.typeName.type === 'TSQualifiedName'
+      ? typeAnnotation.typeName.right.name
+      : typeAnnotation.typeName.type === 'Identifier'
+        ? typeAnnotation.typeName.name
+        : '';
+  return COMPONENT_TYPE_NAMES.includes(typeName);
+}
+
+function detectComponent(node: TSESTree.Node, componentWrappers: string[]): boolean {
+  switch (node.type) {
+    case 'FunctionDeclaration':
+      // Anonymous default exports only have their output to go by: export default function () { ... }
+      if (!node.id) {
+        return node.parent?.type === 'ExportDefaultDeclaration' && returnsJSX(node);
+      }
+      return isComponentName(node.id.name) && hasComponentEvidence(node);
+
+    case 'VariableDeclarator': {
+      if (node.id.type !== 'Identifier' || !isComponentName(node.id.name) || !node.init) return false;
+
+      if (node.init.type === 'ArrowFunctionExpression' || node.init.type === 'FunctionExpression') {
+        return hasComponentTypeAnnotation(node.id) || hasComponentEvidence(node.init);
+      }
+
+      // Wrapped in a known HOC: const Input = forwardRef(...), const TodoList = observer(...),
+      // including generic components cast after wrapping: forwardRef(Select) as <T>(...) => JSX.Element
+      const init = skipTypeAssertions(node.init);
+      return init.type === 'CallExpression' && isComponentWrapperCall(init, componentWrappers);
+    }
+
+    case 'ArrowFunctionExpression':
+    case 'FunctionExpression': {
+      const parent = node.parent;
+
+      if (parent?.type === 'VariableDeclarator' && parent.init === node) {
+        return isComponentFunction(parent, componentWrappers);
+      }
+
+      // Callback passed to a component wrapper: memo((props) => ...)
+      if (
+        parent?.type === 'CallExpression' &&
+        parent.arguments[0] === node &&
+        isComponentWrapperCall(parent, componentWrappers)
+      ) {
+        return true;
+      }
+
+      if (parent?.type === 'ExportDefaultDeclaration') {
+        return returnsJSX(node);
+      }
+
+      // Named function expressions: export default function Button() { ... } inside other expressions
+      return (
+        node.type === 'FunctionExpression' && !!node.id && isComponentName(node.id.name) && hasComponentEvidence(node)
+      );
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks if a call wraps a component in one of the configured wrappers (e.g., memo, forwardRef, observer)
+ */
+export function isComponentWrapperCall(
+  node: TSESTree.CallExpression,
+  componentWrappers: string[] = DEFAULT_COMPONENT_WRAPPERS
+): boolean {
+  const calleeName = getCalleeName(node.callee);
+  return calleeName !== null && componentWrappers.includes(calleeName);
+}
 
 /**
  * Extracts the component name from a function declaration or variable declarator node
@@ -16,18 +196,44 @@ export function extractComponentName(node: TSESTree.Node): string | null {
 }
 
 /**
- * Determines if a function node represents a React component based on naming convention
+ * Determines if a node represents a React component. A PascalCase name alone is not enough: the function
+ * must also return JSX, call hooks, be typed as a component or be wrapped in a known component wrapper.
+ * Anonymous default exports count when they return JSX. Results are cached per node and wrapper list.
  */
-export function isComponentFunction(node: TSESTree.Node): boolean {
-  if (node.type === 'FunctionDeclaration' && node.id) {
-    return /^[A-Z]/.test(node.id.name);
+export function isComponentFunction(
+  node: TSESTree.Node,
+  componentWrappers: string[] = DEFAULT_COMPONENT_WRAPPERS
+): boolean {
+  const wrappersKey = componentWrappers.join();
+  let results = componentCache.get(node);
+  if (!results) {
+    results = new Map();
+    componentCache.set(node, results);
   }
 
-  if (node.type === 'VariableDeclarator' && node.id.type === 'Identifier' && /^[A-Z]/.test(node.id.name)) {
-    return true;
-  }
+  const cached = results.get(wrappersKey);
+  if (cached !== undefined) return cached;
 
-  return false;
+  const isComponent = detectComponent(node, componentWrappers);
+  results.set(wrappersKey, isComponent);
+  return isComponent;
+}
+
+/**
+ * Derives a component name from a file name for anonymous default exports
+ * (e.g., user-card.tsx -> UserCard, Button/index.tsx -> Button)
+ */
+export function getComponentNameFromFilename(filename: string): string | null {
+  const baseName = path.basename(filename).split('.')[0];
+  const name = baseName === 'index' ? path.basename(path.dirname(filename)) : baseName;
+
+  const pascalCase = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+
+  return /^[A-Z]/.test(pascalCase) ? pascalCase : null;
 }
 
 /**
@@ -48,7 +254,10 @@ export function isHookFunction(node: TSESTree.Node): boolean {
 /**
  * Checks if a node is within a React component or custom hook function scope
  */
-export function isInComponentOrHookScope(node: TSESTree.Node): boolean {
+export function isInComponentOrHookScope(
+  node: TSESTree.Node,
+  componentWrappers: string[] = DEFAULT_COMPONENT_WRAPPERS
+): boolean {
   let current: TSESTree.Node | undefined = node.parent;
 
   while (current) {
@@ -68,12 +277,8 @@ export function isInComponentOrHookScope(node: TSESTree.Node): boolean {
       return /^[A-Z]/.test(name) || /^use[A-Z]/.test(name);
     }
 
-    // Check for forwardRef calls
-    if (
-      current.type === 'CallExpression' &&
-      current.callee.type === 'Identifier' &&
-      current.callee.name === 'forwardRef'
-    ) {
+    // Check for component wrapper calls (forwardRef, memo, etc.)
+    if (current.type === 'CallExpression' && isComponentWrapperCall(current, componentWrappers)) {
       return true;
     }
 
@@ -83,36 +288,30 @@ export function isInComponentOrHookScope(node: TSESTree.Node): boolean {
   return false;
 }
 
+/**
+ * Checks if a function node is a React hook, named like useSomething
+ */
+function isHookFunctionNode(fn: FunctionNode): boolean {
+  if (fn.type !== 'ArrowFunctionExpression' && fn.id) {
+    return /^use[A-Z]/.test(fn.id.name);
+  }
+
+  return fn.parent?.type === 'VariableDeclarator' && isHookFunction(fn.parent);
+}
+
 /**
  * Checks if a function parameter belongs to a React component or hook
  */
-export function isComponentOrHookParameter(node: TSESTree.Node): boolean {
+export function isComponentOrHookParameter(
+  node: TSESTree.Node,
+  componentWrappers: string[] = DEFAULT_COMPONENT_WRAPPERS
+): boolean {
   let current: TSESTree.Node | undefined = node.parent;
 
+  // The parameter belongs to the nearest enclosing function
   while (current) {
-    // Check if we're in the parameters of a function
-    if (current.type === 'FunctionDeclaration' && current.id) {
-      const name = current.id.name;
-      return /^[A-Z]/.test(name) || /^use[A-Z]/.test(name);
-    }
-
-    // Check for arrow functions assigned to variables
-    if (current.type === 'ArrowFunctionExpression') {
-      const parent = current.parent;
-      if (parent?.type === 'VariableDeclarator' && parent.id.type === 'Identifier') {
-        const name = parent.id.name;
-        return /^[A-Z]/.test(name) || /^use[A-Z]/.test(name);
-      }
-    }
-
-    // Check for forwardRef callback parameters
-    if (
-      current.type === 'ArrowFunctionExpression' &&
-      current.parent?.type === 'CallExpression' &&
-      current.parent.callee.type === 'Identifier' &&
-      current.parent.callee.name === 'forwardRef'
-    ) {
-      return true;
+    if (isFunctionNode(current)) {
+      return isHookFunctionNode(current) || isComponentFunction(current, componentWrappers);
     }
 
     current = current.parent || undefined;
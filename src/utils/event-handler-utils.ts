@@ -1,5 +1,41 @@
 import { TSESTree } from '@typescript-eslint/utils';
 
+// Default prefix for event handlers defined inside components
+export const DEFAULT_INTERNAL_HANDLER_PREFIX = 'handle';
+
+// Default prefix for event handler props
+export const DEFAULT_PROP_HANDLER_PREFIX = 'on';
+
+// Prefixes that mark a name as an event handler
+export const DEFAULT_HANDLER_PREFIXES = [DEFAULT_INTERNAL_HANDLER_PREFIX, DEFAULT_PROP_HANDLER_PREFIX];
+
+// Non-semantic suffixes that mark a name as an event handler
+export const DEFAULT_HANDLER_SUFFIXES = ['Handler', 'Callback', 'Fn'];
+
+/**
+ * Escapes a string so it can be embedded in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds an alternation pattern that tries longer values first (e.g., "onInternal" before "on")
+ */
+function toAlternation(values: string[]): string {
+  return [...values]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+}
+
+/**
+ * Checks if a name starts with a prefix followed by an uppercase letter (e.g., "handle" + "Click")
+ */
+export function hasHandlerPrefix(name: string, prefix: string): boolean {
+  return new RegExp(`^${escapeRegExp(prefix)}[A-Z]`).test(name);
+}
+
 // Common event handler patterns
 export const eventHandlerAttributes = new Set([
   'onClick',
@@ -74,13 +110,18 @@ export const eventHandlerAttributes = new Set([
 ]);
 
 /**
- * Extracts the event name from a handler name by removing common prefixes/suffixes
+ * Extracts the event name from a handler name by removing handler prefixes and non-semantic suffixes.
+ * A trailing "Function" is always treated as non-semantic.
  */
-export function extractEventFromHandlerName(handlerName: string): string {
+export function extractEventFromHandlerName(
+  handlerName: string,
+  prefixes: string[] = DEFAULT_HANDLER_PREFIXES,
+  suffixes: string[] = DEFAULT_HANDLER_SUFFIXES
+): string {
   // Remove common prefixes/suffixes
   let eventName = handlerName
-    .replace(/^(handle|on)/, '') // Remove handle or on prefix
-    .replace(/(Handler|Callback|Fn|Function)$/, ''); // Remove non-semantic suffixes
+    .replace(new RegExp(`^(${toAlternation(prefixes)})(?=[A-Z])`), '') // Remove handler prefix
+    .replace(new RegExp(`(${toAlternation([...suffixes, 'Function'])})$`), ''); // Remove non-semantic suffixes
 
   // Handle special cases for past-tense event names
   eventName = eventName.replace(/Changed$/, 'Change');
@@ -92,31 +133,33 @@ export function extractEventFromHandlerName(handlerName: string): string {
 }
 
 /**
- * Generates a properly formatted "handle" prefixed event handler name
+ * Generates a properly formatted "handle" (or custom) prefixed event handler name
  */
-export function generateHandleEventName(eventName: string): string {
-  // Convert first letter to uppercase after "handle"
-  return 'handle' + eventName.charAt(0).toUpperCase() + eventName.slice(1);
+export function generateHandleEventName(eventName: string, prefix: string = DEFAULT_INTERNAL_HANDLER_PREFIX): string {
+  // Convert first letter to uppercase after the prefix
+  return prefix + eventName.charAt(0).toUpperCase() + eventName.slice(1);
 }
 
 /**
- * Generates a properly formatted "on" prefixed event handler prop name
+ * Generates a properly formatted "on" (or custom) prefixed event handler prop name
  */
-export function generateOnEventName(eventName: string): string {
-  // Convert first letter to uppercase after "on"
-  return 'on' + eventName.charAt(0).toUpperCase() + eventName.slice(1);
+export function generateOnEventName(eventName: string, prefix: string = DEFAULT_PROP_HANDLER_PREFIX): string {
+  // Convert first letter to uppercase after the prefix
+  return prefix + eventName.charAt(0).toUpperCase() + eventName.slice(1);
 }
 
 /**
  * Checks if a name looks like an event handler based on common patterns
  */
-export function isEventHandlerName(name: string): boolean {
+export function isEventHandlerName(
+  name: string,
+  prefixes: string[] = DEFAULT_HANDLER_PREFIXES,
+  suffixes: string[] = DEFAULT_HANDLER_SUFFIXES
+): boolean {
   // Check if name looks like an event handler
   return (
-    /^(on|handle)[A-Z]/.test(name) ||
-    /^[a-z]+Handler$/.test(name) ||
-    /^[a-z]+Callback$/.test(name) ||
-    /^[a-z]+Fn$/.test(name)
+    prefixes.some((prefix) => hasHandlerPrefix(name, prefix)) ||
+    suffixes.some((suffix) => new RegExp(`^[a-z]+${escapeRegExp(suffix)}$`).test(name))
   );
 }
 
@@ -1,9 +1,35 @@
 // Rule creation utilities
 export { createRule } from './rule-creator';
 
+// Shared plugin settings (settings['react-snob'])
+export {
+  DEFAULT_CLASS_NAME_HELPERS,
+  DEFAULT_COMPONENT_WRAPPERS,
+  DEFAULT_PLUGIN_SETTINGS,
+  DEFAULT_STATE_HOOKS,
+  DEFAULT_STATE_INITIALIZERS,
+  getPluginSettings,
+} from './settings-utils';
+export type { PluginSettings } from './settings-utils';
+
+// Baseline suppression of recorded violations
+export {
+  BASELINE_VERSION,
+  getBaselineFileKey,
+  getBaselineFingerprint,
+  getBaselineNodeName,
+  readBaseline,
+  startBaselineRecording,
+  stopBaselineRecording,
+  withBaselineSuppression,
+} from './baseline-utils';
+export type { Baseline, RecordedReport } from './baseline-utils';
+
 // Component detection and analysis
 export {
   extractComponentName,
+  getComponentNameFromFilename,
+  isComponentWrapperCall,
   isComponentFunction,
   isHookFunction,
   isInComponentOrHookScope,
@@ -11,23 +37,50 @@ export {
 } from './component-utils';
 
 // AST traversal and expression analysis
-export { countLogicalOperators, hasTemplateLiteral, hasLogicalAssignment, isComplexOperand } from './ast-traversal';
+export {
+  countLogicalOperators,
+  hasTemplateLiteral,
+  hasLogicalAssignment,
+  isComplexOperand,
+  getCalleeName,
+  skipTypeAssertions,
+} from './ast-traversal';
 
 // TypeScript-specific utilities
-export { findInterfaceNamesInTypeReference, getQualifiedTypeName, getFullTypeSignature } from './typescript-utils';
+export {
+  findInterfaceNamesInTypeReference,
+  findTypeReferencesInTypeReference,
+  getQualifiedTypeName,
+  getFullTypeSignature,
+  getTypeReferenceBaseName,
+  matchesTypeNamePattern,
+} from './typescript-utils';
+
+// Type-aware utilities backed by the TypeScript checker
+export { getTypeInformation, isBooleanLikeType, hasBooleanTypeInformation, resolveTypeAlias } from './type-info-utils';
+export type { ResolvedTypeAlias } from './type-info-utils';
 
 // JSX and context detection utilities
-export { containsJSX, isInZodOmitOrPickMethod, isInConstructorCall } from './jsx-utils';
+export { containsJSX, getJSXElementName, isInZodOmitOrPickMethod, isInConstructorCall } from './jsx-utils';
 
 // Naming convention utilities
 export {
   suggestUnderscorePrefix,
   hasUnderscorePrefix,
   suggestPrefixedName,
+  suggestPredicateName,
   hasValidPrefix,
   hasAnyValidPrefix,
+  suggestDerivedConditionalName,
+  formatPrefixList,
+  hasDerivedPrefix,
+  suggestDerivedPrefixedName,
+  createIgnoreMatcher,
 } from './naming-utils';
 
+// Scope-aware rename utilities
+export { findDeclaredVariable, hasRenameCollision, createRenameFix } from './rename-utils';
+
 // Boolean type and expression utilities
 export {
   isBooleanType,
@@ -35,11 +88,19 @@ export {
   isBooleanExpression,
   isLikelyBooleanExpression,
   isDerivedBooleanExpression,
+  isStateHookCall,
+  isStateInitializerCall,
   isUseStateWithBoolean,
+  getHookCallName,
 } from './boolean-utils';
 
 // Event handler utilities
 export {
+  DEFAULT_INTERNAL_HANDLER_PREFIX,
+  DEFAULT_PROP_HANDLER_PREFIX,
+  DEFAULT_HANDLER_PREFIXES,
+  DEFAULT_HANDLER_SUFFIXES,
+  hasHandlerPrefix,
   eventHandlerAttributes,
   extractEventFromHandlerName,
   generateHandleEventName,
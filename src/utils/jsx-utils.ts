@@ -79,3 +79,18 @@ export function isInConstructorCall(node: TSESTree.Node): boolean {
 
   return false;
 }
+
+/**
+ * Gets the full name of a JSX element, including member and namespaced names (e.g., "motion.div")
+ */
+export function getJSXElementName(node: TSESTree.JSXTagNameExpression): string {
+  if (node.type === AST_NODE_TYPES.JSXIdentifier) {
+    return node.name;
+  }
+
+  if (node.type === AST_NODE_TYPES.JSXNamespacedName) {
+    return `${node.namespace.name}:${node.name.name}`;
+  }
+
+  return `${getJSXElementName(node.object)}.${node.property.name}`;
+}
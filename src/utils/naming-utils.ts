@@ -42,6 +42,27 @@ export function suggestPrefixedName(name: string, allowedPrefixes: string[]): st
   return `${prefix}${capitalized}`;
 }
 
+/**
+ * Suggests a prefixed name for a predicate function, dropping leading check/validate verbs
+ * (e.g., checkAdmin -> isAdmin, validateEmail -> isValidEmail, validEmail -> isValidEmail)
+ */
+export function suggestPredicateName(name: string, allowedPrefixes: string[]): string {
+  const match = /^(_?)(check|validate)([A-Z].*)$/.exec(name);
+  if (!match) return suggestPrefixedName(name, allowedPrefixes);
+
+  const [, underscore, verb, subject] = match;
+  const predicate = verb === 'validate' ? `valid${subject}` : subject.charAt(0).toLowerCase() + subject.slice(1);
+  return suggestPrefixedName(`${underscore}${predicate}`, allowedPrefixes);
+}
+
+/**
+ * Builds a name for an extracted JSX condition that starts with both the underscore and a boolean prefix
+ * (e.g., adminPanelVisible -> _isAdminPanelVisible)
+ */
+export function suggestDerivedConditionalName(subject: string, allowedPrefixes: string[] = ['is']): string {
+  return suggestUnderscorePrefix(suggestPrefixedName(subject, allowedPrefixes));
+}
+
 /**
  * Checks if a name already starts with a valid prefix (including underscore prefix)
  */
@@ -67,3 +88,61 @@ export function hasValidPrefix(name: string, prefix: string): boolean {
 export function hasAnyValidPrefix(name: string, allowedPrefixes: string[]): boolean {
   return allowedPrefixes.some((prefix) => hasValidPrefix(name, prefix));
 }
+
+/**
+ * Formats prefixes for report messages (e.g., ["is", "has", "can"] -> "is", "has", or "can")
+ */
+export function formatPrefixList(prefixes: string[]): string {
+  if (prefixes.length === 1) {
+    return `"${prefixes[0]}"`;
+  }
+  if (prefixes.length === 2) {
+    return `"${prefixes[0]}", or "${prefixes[1]}"`;
+  }
+  const lastPrefix = prefixes[prefixes.length - 1];
+  const otherPrefixes = prefixes.slice(0, -1);
+  return `${otherPrefixes.map((p) => `"${p}"`).join(', ')}, or "${lastPrefix}"`;
+}
+
+/**
+ * Checks if a derived conditional name starts with a derived prefix. Prefixes ending in a letter must be
+ * followed by an uppercase letter or digit (e.g., "shouldShow" accepts shouldShowFooter but not shouldShowcase),
+ * while "_" accepts any underscore-prefixed name
+ */
+export function hasDerivedPrefix(name: string, prefix: string): boolean {
+  if (!name.startsWith(prefix) || name.length === prefix.length) return false;
+
+  return !/[A-Za-z]$/.test(prefix) || /^[A-Z0-9]/.test(name.slice(prefix.length));
+}
+
+/**
+ * Converts a derived conditional name to its suggested prefixed version, replacing any leading underscore
+ * (e.g., canPay -> _canPay with "_", _footerVisible -> _isFooterVisible with "_is")
+ */
+export function suggestDerivedPrefixedName(name: string, prefix: string): string {
+  const subject = name.replace(/^_+/, '');
+  if (!/[A-Za-z]$/.test(prefix)) return `${prefix}${subject}`;
+
+  return `${prefix}${subject.charAt(0).toUpperCase()}${subject.slice(1)}`;
+}
+
+/**
+ * Creates a matcher for the `ignore` option shared by the naming rules. Entries written as regular expressions
+ * (e.g., "/^__/" or "/Dto$/i") are tested against the name, and other entries must match the name exactly.
+ */
+export function createIgnoreMatcher(ignore: string[] = []): (name: string) => boolean {
+  const names = new Set<string>();
+  const patterns: RegExp[] = [];
+
+  for (const entry of ignore) {
+    const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(entry);
+    if (regexMatch) {
+      // Global and sticky flags would make test() stateful between names
+      patterns.push(new RegExp(regexMatch[1], regexMatch[2].replace(/[gy]/g, '')));
+    } else {
+      names.add(entry);
+    }
+  }
+
+  return (name) => names.has(name) || patterns.some((pattern) => pattern.test(name));
+}
@@ -0,0 +1,110 @@
+import { AST_NODE_TYPES, ASTUtils, TSESLint, TSESTree } from '@typescript-eslint/utils';
+
+type NameNode = TSESTree.Identifier | TSESTree.JSXIdentifier;
+
+/**
+ * Finds the variable declared by an identifier, or null when the identifier is not a binding
+ * (e.g., object literal keys or interface members)
+ */
+export function findDeclaredVariable(
+  sourceCode: Readonly<TSESLint.SourceCode>,
+  identifier: TSESTree.Identifier
+): TSESLint.Scope.Variable | null {
+  const variable = ASTUtils.findVariable(sourceCode.getScope(identifier), identifier);
+
+  if (!variable || !variable.identifiers.includes(identifier)) {
+    return null;
+  }
+
+  return variable;
+}
+
+/**
+ * Checks if renaming a variable would collide with an existing binding or capture another reference
+ */
+export function hasRenameCollision(variable: TSESLint.Scope.Variable, newName: string): boolean {
+  // The new name is already visible from the declaration or from one of the references
+  const scopes = new Set([variable.scope, ...variable.references.map((reference) => reference.from)]);
+  for (const scope of scopes) {
+    if (ASTUtils.findVariable(scope, newName)) {
+      return true;
+    }
+  }
+
+  // An outer or global binding with the new name is referenced where the renamed variable would shadow it
+  return variable.scope.through.some((reference) => reference.identifier.name === newName);
+}
+
+/**
+ * Checks if a variable is declared by an export declaration (export const open = true, export function open() {}),
+ * where renaming it would change the module's public name
+ */
+function isExportedDeclaration(variable: TSESLint.Scope.Variable): boolean {
+  return variable.defs.some((def) => {
+    if (def.type === TSESLint.Scope.DefinitionType.Parameter) return false;
+
+    const declaration = def.type === TSESLint.Scope.DefinitionType.Variable ? def.parent : def.node;
+    const parentType = declaration?.parent?.type;
+    return (
+      parentType === AST_NODE_TYPES.ExportNamedDeclaration || parentType === AST_NODE_TYPES.ExportDefaultDeclaration
+    );
+  });
+}
+
+/**
+ * Replaces a single occurrence of a variable name, expanding shorthand properties and export specifiers
+ * so that object keys and exported names stay unchanged
+ */
+function renameOccurrence(
+  fixer: TSESLint.RuleFixer,
+  node: NameNode,
+  oldName: string,
+  newName: string
+): TSESLint.RuleFix {
+  const nameRange: TSESLint.AST.Range = [node.range[0], node.range[0] + oldName.length];
+  const parent = node.parent;
+
+  // { open } and { open = false } keep their key: { open: isOpen }
+  const property = parent?.type === AST_NODE_TYPES.AssignmentPattern && parent.left === node ? parent.parent : parent;
+  if (property?.type === AST_NODE_TYPES.Property && property.shorthand) {
+    return fixer.replaceTextRange(nameRange, `${oldName}: ${newName}`);
+  }
+
+  // export { open } keeps its exported name: export { isOpen as open }
+  if (
+    parent?.type === AST_NODE_TYPES.ExportSpecifier &&
+    parent.local === node &&
+    parent.local.range[0] === parent.exported.range[0]
+  ) {
+    return fixer.replaceText(parent, `${newName} as ${oldName}`);
+  }
+
+  // Identifier ranges include type annotations, so only the name itself is replaced
+  return fixer.replaceTextRange(nameRange, newName);
+}
+
+/**
+ * Creates a fix that renames a declared identifier and every reference found through the scope manager.
+ * Returns null when the identifier is not a binding, is declared by an export declaration, or the new name would
+ * collide with another binding.
+ */
+export function createRenameFix(
+  sourceCode: Readonly<TSESLint.SourceCode>,
+  identifier: TSESTree.Identifier,
+  newName: string
+): TSESLint.ReportFixFunction | null {
+  if (!/^[A-Za-z_$][\w$]*$/.test(newName) || newName === identifier.name) return null;
+
+  const variable = findDeclaredVariable(sourceCode, identifier);
+  if (!variable || isExportedDeclaration(variable) || hasRenameCollision(variable, newName)) return null;
+
+  // Deduplicate occurrences by position (shorthand properties and initializers share the declaration range)
+  const occurrences = new Map<number, NameNode>();
+  for (const node of [...variable.identifiers, ...variable.references.map((reference) => reference.identifier)]) {
+    if (!occurrences.has(node.range[0])) {
+      occurrences.set(node.range[0], node);
+    }
+  }
+
+  return (fixer) => [...occurrences.values()].map((node) => renameOccurrence(fixer, node, variable.name, newName));
+}
@@ -1,8 +1,17 @@
 import { ESLintUtils } from '@typescript-eslint/utils';
 
-/**
- * Creates a rule creator with consistent documentation URL pattern for all plugin rules
- */
-export const createRule = ESLintUtils.RuleCreator(
+import { withBaselineSuppression } from './baseline-utils';
+
+const ruleCreator = ESLintUtils.RuleCreator(
   (name) => `https://github.com/jasonpaff/eslint-plugin-react-snob/blob/main/docs/rules/${name}.md`
 );
+
+/**
+ * Creates a rule with consistent documentation URL pattern for all plugin rules.
+ * Reports recorded in the baseline file (settings['react-snob'].baseline) are suppressed.
+ */
+export const createRule: typeof ruleCreator = ({ create, ...rule }) =>
+  ruleCreator({
+    ...rule,
+    create: (context, options) => create(withBaselineSuppression(context, rule.name), options),
+  });
@@ -0,0 +1,70 @@
+import { TSESLint } from '@typescript-eslint/utils';
+
+/**
+ * Shared settings read from `settings['react-snob']`, used by every rule to recognise
+ * project-specific component wrappers, state hooks, state initialisers and class name helpers, and to suppress
+ * reports recorded in a baseline file
+ */
+export interface PluginSettings {
+  baseline: string | null;
+  classNameHelpers: string[];
+  componentWrappers: string[];
+  stateHooks: string[];
+  stateInitializers: string[];
+}
+
+export const DEFAULT_COMPONENT_WRAPPERS = ['forwardRef', 'memo', 'React.forwardRef', 'React.memo'];
+
+export const DEFAULT_STATE_HOOKS = ['useState', 'React.useState'];
+
+export const DEFAULT_STATE_INITIALIZERS = ['useReducer', 'useState', 'React.useReducer', 'React.useState'];
+
+export const DEFAULT_CLASS_NAME_HELPERS = ['cn', 'clsx', 'cva', 'cx'];
+
+export const DEFAULT_PLUGIN_SETTINGS: PluginSettings = {
+  baseline: null,
+  classNameHelpers: DEFAULT_CLASS_NAME_HELPERS,
+  componentWrappers: DEFAULT_COMPONENT_WRAPPERS,
+  stateHooks: DEFAULT_STATE_HOOKS,
+  stateInitializers: DEFAULT_STATE_INITIALIZERS,
+};
+
+// Settings are resolved once per linted file and shared between rules through the source code object
+const settingsCache = new WeakMap<object, PluginSettings>();
+
+/**
+ * Reads a list of names from the settings block, falling back to the default for missing or invalid values
+ */
+function readNameList(value: unknown, defaultValue: string[]): string[] {
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    return defaultValue;
+  }
+
+  return value;
+}
+
+/**
+ * Gets the plugin settings for the file being linted, e.g.
+ * `settings: { 'react-snob': { componentWrappers: ['memo', 'observer'] } }`
+ */
+export function getPluginSettings(context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>): PluginSettings {
+  const cached = settingsCache.get(context.sourceCode);
+  if (cached) return cached;
+
+  const rawSettings = context.settings['react-snob'];
+  const settings =
+    rawSettings && typeof rawSettings === 'object'
+      ? (rawSettings as Record<string, unknown>)
+      : ({} as Record<string, unknown>);
+
+  const pluginSettings: PluginSettings = {
+    baseline: typeof settings.baseline === 'string' ? settings.baseline : null,
+    classNameHelpers: readNameList(settings.classNameHelpers, DEFAULT_CLASS_NAME_HELPERS),
+    componentWrappers: readNameList(settings.componentWrappers, DEFAULT_COMPONENT_WRAPPERS),
+    stateHooks: readNameList(settings.stateHooks, DEFAULT_STATE_HOOKS),
+    stateInitializers: readNameList(settings.stateInitializers, DEFAULT_STATE_INITIALIZERS),
+  };
+
+  settingsCache.set(context.sourceCode, pluginSettings);
+  return pluginSettings;
+}
@@ -1,3 +1,5 @@
+import * as path from 'path';
+
 // Parser configuration for JSX testing
 export const PARSER_CONFIG = {
   languageOptions: {
@@ -12,20 +14,51 @@ export const PARSER_CONFIG = {
   },
 } as const;
 
-// Helper function to create invalid test cases
-export function createInvalidCase(code: string, output: string, errors: Array<{ attribute: string; value: string }>) {
+// Parser configuration for type-aware JSX testing against the fixture program
+export const TYPED_PARSER_CONFIG = {
+  languageOptions: {
+    parser: require('@typescript-eslint/parser'),
+    parserOptions: {
+      ecmaFeatures: {
+        jsx: true,
+      },
+      ecmaVersion: 2020,
+      project: './tsconfig.json',
+      sourceType: 'module' as const,
+      tsconfigRootDir: path.resolve(__dirname, '../../tests/fixtures'),
+    },
+  },
+} as const;
+
+// Helper function to create invalid test cases for require-jsx-string-braces rule.
+// Errors default to the requireBraces message; pass messageId 'disallowBraces' for "never" mode reports.
+export function createInvalidCase(
+  code: string,
+  output: string,
+  errors: Array<{ attribute: string; messageId?: 'disallowBraces' | 'requireBraces'; value: string }>,
+  options?: { mode?: 'always' | 'never'; overrides?: Record<string, 'always' | 'never'> }
+) {
   return {
     code,
-    errors: errors.map((error) => ({
-      data: error,
-      messageId: 'requireBraces' as const,
+    errors: errors.map(({ messageId = 'requireBraces', ...data }) => ({
+      data,
+      messageId,
     })),
     output,
+    ...(options && { options: [options] }),
   };
 }
 
 // Helper function to create invalid test cases for no-inline-styles rule
-export function createNoInlineStylesInvalidCase(code: string) {
+export function createNoInlineStylesInvalidCase(
+  code: string,
+  options?: {
+    allowCustomProperties?: boolean;
+    allowDynamicValues?: boolean;
+    allowedElements?: string[];
+    attributes?: string[];
+  }
+) {
   return {
     code,
     errors: [
@@ -33,20 +66,40 @@ export function createNoInlineStylesInvalidCase(code: string) {
         messageId: 'noInlineStyle' as const,
       },
     ],
+    ...(options && { options: [options] }),
   };
 }
 
-// Helper function to create invalid test cases for require-derived-conditional-prefix rule
-export function createDerivedConditionalInvalidCase(code: string, name: string, suggested: string) {
+// Helper function to create invalid test cases for require-derived-conditional-prefix rule.
+// Pass the expected rename suggestion output, or null when no suggestion is expected.
+// The expected prefixes default to the underscore prefix.
+export function createDerivedConditionalInvalidCase(
+  code: string,
+  name: string,
+  suggested: string,
+  suggestionOutput: string | null,
+  prefixes: string = '"_"'
+) {
   return {
     code,
     errors: [
       {
         data: {
           name,
+          prefixes,
           suggested,
         },
         messageId: 'derivedConditionalShouldStartWithUnderscore' as const,
+        suggestions:
+          suggestionOutput === null
+            ? []
+            : [
+                {
+                  data: { name, suggested },
+                  messageId: 'renameDerivedConditional' as const,
+                  output: suggestionOutput,
+                },
+              ],
       },
     ],
   };
@@ -77,22 +130,39 @@ export function createBooleanPrefixInvalidCase(
 }
 
 // Helper function to create invalid test cases for no-complex-jsx-conditions rule
-export function createComplexConditionInvalidCase(code: string, errorCount: number = 1) {
+export function createComplexConditionInvalidCase(
+  code: string,
+  errorCount: number = 1,
+  options?: {
+    classNameAttributes?: string[];
+    classNameHelpers?: string[];
+    countTemplateLiterals?: boolean;
+    maxLogicalOperators?: number;
+    maxTernaryDepth?: number;
+  }
+) {
   return {
     code,
     errors: Array(errorCount).fill({
       messageId: 'complexCondition' as const,
     }),
+    ...(options && { options: [options] }),
   };
 }
 
-// Helper function to create invalid test cases for component-prop-interface-naming rule
+// Helper function to create invalid test cases for component-prop-interface-naming rule.
+// Pass the expected rename suggestion output, or null when no suggestion is expected
+// (qualified, imported, exported, or shared types).
 export function createComponentPropInterfaceNamingInvalidCase(
   code: string,
   actual: string,
   component: string,
-  expected: string
+  expected: string,
+  suggestionOutput: string | null
 ) {
+  // Messages show the full generic signature (ButtonConfig<T>), renames only the type name (ButtonConfig)
+  const actualName = actual.replace(/<[\s\S]*$/, '');
+
   return {
     code,
     errors: [
@@ -103,22 +173,55 @@ export function createComponentPropInterfaceNamingInvalidCase(
           expected,
         },
         messageId: 'incorrectPropsInterfaceName' as const,
+        suggestions:
+          suggestionOutput === null
+            ? []
+            : [
+                {
+                  data: { actual: actualName, expected },
+                  messageId: 'renamePropsInterface' as const,
+                  output: suggestionOutput,
+                },
+              ],
       },
     ],
   };
 }
 
-// Helper function to create invalid test cases for consistent-event-handler-naming rule
+// Helper function to create invalid test cases for consistent-event-handler-naming rule.
+// Internal handlers get a rename suggestion with the given output; pass null when no suggestion is expected.
 export function createEventHandlerInvalidCase(
   code: string,
-  errors: Array<{ actual: string; context: 'internal' | 'prop'; expected: string }>
+  errors: Array<
+    | { actual: string; context: 'internal'; expected: string; suggestionOutput: string | null }
+    | { actual: string; context: 'prop'; expected: string }
+  >,
+  options?: { handlerSuffixes?: string[]; ignore?: string[]; internalPrefix?: string; propPrefix?: string }
 ) {
   return {
     code,
-    errors: errors.map((error) => ({
-      data: error,
-      messageId: 'incorrectHandlerNaming' as const,
-    })),
+    errors: errors.map((error) => {
+      if (error.context === 'prop') {
+        return { data: error, messageId: 'incorrectHandlerNaming' as const };
+      }
+
+      const { suggestionOutput, ...data } = error;
+      return {
+        data,
+        messageId: 'incorrectHandlerNaming' as const,
+        suggestions:
+          suggestionOutput === null
+            ? []
+            : [
+                {
+                  data: { actual: data.actual, expected: data.expected },
+                  messageId: 'renameHandler' as const,
+                  output: suggestionOutput,
+                },
+              ],
+      };
+    }),
+    ...(options && { options: [options] }),
   };
 }
 
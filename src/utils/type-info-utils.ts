@@ -0,0 +1,84 @@
+import { ParserServicesWithTypeInformation, TSESLint, TSESTree } from '@typescript-eslint/utils';
+import * as ts from 'typescript';
+
+/**
+ * Returns the parser services when the file was parsed with a TypeScript program, or null otherwise
+ */
+export function getTypeInformation(
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>
+): ParserServicesWithTypeInformation | null {
+  const services = context.sourceCode.parserServices;
+
+  if (!services?.program || !services.esTreeNodeToTSNodeMap) {
+    return null;
+  }
+
+  return services as ParserServicesWithTypeInformation;
+}
+
+/**
+ * Checks if a TypeScript type is boolean, ignoring null and undefined union members
+ */
+export function isBooleanLikeType(type: ts.Type): boolean {
+  const types = type.isUnion() ? type.types : [type];
+  const nonNullishTypes = types.filter(
+    (part) => (part.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined | ts.TypeFlags.Void)) === 0
+  );
+
+  return nonNullishTypes.length > 0 && nonNullishTypes.every((part) => (part.flags & ts.TypeFlags.BooleanLike) !== 0);
+}
+
+/**
+ * Resolves the type of a node through the TypeScript checker and checks if it is boolean
+ */
+export function hasBooleanTypeInformation(services: ParserServicesWithTypeInformation, node: TSESTree.Node): boolean {
+  const tsNode = services.esTreeNodeToTSNodeMap.get(node);
+  if (!tsNode) return false;
+
+  const type = services.program.getTypeChecker().getTypeAtLocation(tsNode);
+  return isBooleanLikeType(type);
+}
+
+/**
+ * An imported type followed through its import and re-export aliases to the declaration
+ */
+export interface ResolvedTypeAlias {
+  declarationFile: string;
+  declarationName: string;
+  /** Every name the type goes by, from the local import name to the declaration name */
+  names: string[];
+}
+
+/**
+ * Follows an imported type name through import and re-export aliases
+ * (e.g., `import type { ButtonProps }` of `export type { Props as ButtonProps }`) to its declaration.
+ * Returns null for types that are not imported or can't be resolved.
+ */
+export function resolveTypeAlias(
+  services: ParserServicesWithTypeInformation,
+  identifier: TSESTree.Identifier
+): ResolvedTypeAlias | null {
+  const tsNode = services.esTreeNodeToTSNodeMap.get(identifier);
+  if (!tsNode) return null;
+
+  const checker = services.program.getTypeChecker();
+  let symbol = checker.getSymbolAtLocation(tsNode);
+  if (!symbol || (symbol.flags & ts.SymbolFlags.Alias) === 0) return null;
+
+  const names = [identifier.name];
+  while (symbol && (symbol.flags & ts.SymbolFlags.Alias) !== 0) {
+    symbol = checker.getImmediateAliasedSymbol(symbol);
+    if (symbol && !names.includes(symbol.getName())) {
+      names.push(symbol.getName());
+    }
+  }
+
+  const declaration = symbol?.declarations?.[0];
+  if (!symbol || !declaration) return null;
+
+  return {
+    declarationFile: declaration.getSourceFile().fileName,
+    declarationName: symbol.getName(),
+    names,
+  };
+}
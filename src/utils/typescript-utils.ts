@@ -1,4 +1,4 @@
-import { TSESTree } from '@typescript-eslint/utils';
+import { TSESLint, TSESTree } from '@typescript-eslint/utils';
 
 /**
  * Extracts the full qualified type name from a TSQualifiedName
@@ -14,11 +14,32 @@ export function getQualifiedTypeName(node: TSESTree.TSQualifiedName): string {
   return node.right.name;
 }
 
+/**
+ * Gets the name of a type reference without its type arguments or namespace,
+ * e.g., UI.SelectProps<Option, Group> -> "SelectProps"
+ */
+export function getTypeReferenceBaseName(node: TSESTree.TSTypeReference): string {
+  if (node.typeName.type === 'Identifier') {
+    return node.typeName.name;
+  }
+
+  if (node.typeName.type === 'TSQualifiedName') {
+    return node.typeName.right.name;
+  }
+
+  return '';
+}
+
 /**
  * Extracts the full type signature from a type reference including generics
  * e.g., React.ComponentProps<'div'> -> "React.ComponentProps<'div'>"
+ * Type arguments other than literals and type references are printed from the source code when it is given,
+ * and as "T" otherwise.
  */
-export function getFullTypeSignature(node: TSESTree.TSTypeReference): string {
+export function getFullTypeSignature(
+  node: TSESTree.TSTypeReference,
+  sourceCode?: Readonly<TSESLint.SourceCode>
+): string {
   let baseName = '';
 
   // Get the base type name
@@ -35,10 +56,10 @@ export function getFullTypeSignature(node: TSESTree.TSTypeReference): string {
         if (param.type === 'TSLiteralType' && param.literal.type === 'Literal') {
           return typeof param.literal.value === 'string' ? `'${param.literal.value}'` : String(param.literal.value);
         } else if (param.type === 'TSTypeReference') {
-          return getFullTypeSignature(param);
+          return getFullTypeSignature(param, sourceCode);
         }
-        // For other complex types, use a simple representation
-        return 'T';
+        // For other complex types, use the source text with its whitespace collapsed
+        return sourceCode ? sourceCode.getText(param).replace(/\s+/g, ' ') : 'T';
       })
       .join(', ');
 
@@ -74,3 +95,35 @@ export function findInterfaceNamesInTypeReference(typeRef: TSESTree.TSTypeRefere
 
   return interfaceNames;
 }
+
+/**
+ * Recursively finds all type reference nodes in a TypeScript type reference,
+ * including nested type arguments (in the same order as findInterfaceNamesInTypeReference)
+ */
+export function findTypeReferencesInTypeReference(typeRef: TSESTree.TSTypeReference): TSESTree.TSTypeReference[] {
+  const typeReferences: TSESTree.TSTypeReference[] = [typeRef];
+
+  // Recursively check type arguments
+  if (typeRef.typeArguments && typeRef.typeArguments.params.length > 0) {
+    for (const param of typeRef.typeArguments.params) {
+      if (param.type === 'TSTypeReference') {
+        typeReferences.push(...findTypeReferencesInTypeReference(param));
+      }
+    }
+  }
+
+  return typeReferences;
+}
+
+/**
+ * Checks if a type signature matches a pattern where "*" matches any sequence of characters
+ * e.g., "React.ComponentProps<*>" matches "React.ComponentProps<'div'>"
+ */
+export function matchesTypeNamePattern(signature: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}$`).test(signature);
+}
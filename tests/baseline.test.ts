@@ -0,0 +1,245 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { TSESLint } from '@typescript-eslint/utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { createBaseline, generateBaseline } from '../src/baseline';
+import { runBaselineCli } from '../src/cli/baseline';
+import flatConfig from '../src/configs/flat';
+import { noInlineStyles } from '../src/rules/no-inline-styles';
+import { PARSER_CONFIG } from '../src/utils/test-utils';
+
+const CARD_SOURCE = `
+interface CardAttrs {
+  title: string;
+}
+export function Card({ title }: CardAttrs) {
+  return <div style={{ color: 'red' }}>{title}</div>;
+}
+
+interface BadgeAttrs {
+  label: string;
+}
+export function Badge({ label }: BadgeAttrs) {
+  return <span>{label}</span>;
+}
+`;
+
+// Card's props type is fixed, while a new component with a wrong props type name is added to the same file
+const UPDATED_CARD_SOURCE = `
+interface CardProps {
+  title: string;
+}
+export function Card({ title }: CardProps) {
+  return <div style={{ color: 'red' }}>{title}</div>;
+}
+
+interface BadgeAttrs {
+  label: string;
+}
+export function Badge({ label }: BadgeAttrs) {
+  return <span>{label}</span>;
+}
+
+interface ChipAttrs {
+  text: string;
+}
+export function Chip({ text }: ChipAttrs) {
+  return <span>{text}</span>;
+}
+`;
+
+/**
+ * Creates an ESLint instance linting TSX files in a directory with react-snob rules, without loading config files
+ */
+function createLinter(cwd: string, settings: Record<string, unknown> = {}): TSESLint.FlatESLint {
+  return new TSESLint.FlatESLint({
+    cwd,
+    overrideConfig: [
+      {
+        files: ['**/*.tsx'],
+        languageOptions: PARSER_CONFIG.languageOptions,
+        plugins: { 'react-snob': flatConfig.plugin },
+        rules: {
+          'react-snob/component-prop-interface-naming': 'error',
+          'react-snob/no-inline-styles': 'error',
+        },
+        settings,
+      },
+    ] as TSESLint.FlatConfig.ConfigArray,
+    overrideConfigFile: true,
+  });
+}
+
+describe('baseline', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'react-snob-baseline-'));
+    fs.writeFileSync(path.join(cwd, 'Card.tsx'), CARD_SOURCE);
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { force: true, recursive: true });
+  });
+
+  it('records violations by the name of the reported node', async () => {
+    const baseline = await generateBaseline({
+      cwd,
+      eslint: createLinter(cwd),
+      output: 'baseline/react-snob.json',
+      patterns: ['.'],
+    });
+
+    expect(baseline).toEqual({
+      files: {
+        '../Card.tsx': {
+          'component-prop-interface-naming:FunctionDeclaration:Badge': 1,
+          'component-prop-interface-naming:FunctionDeclaration:Card': 1,
+          'no-inline-styles:JSXAttribute:style': 1,
+        },
+      },
+      version: 1,
+    });
+    expect(JSON.parse(fs.readFileSync(path.join(cwd, 'baseline/react-snob.json'), 'utf8'))).toEqual(baseline);
+  });
+
+  it('suppresses recorded violations and reports new ones', async () => {
+    await generateBaseline({ cwd, eslint: createLinter(cwd), output: 'baseline.json', patterns: ['.'] });
+    const linter = createLinter(cwd, { 'react-snob': { baseline: 'baseline.json' } });
+
+    const [recordedResult] = await linter.lintFiles(['.']);
+    expect(recordedResult.messages).toEqual([]);
+
+    fs.writeFileSync(path.join(cwd, 'Card.tsx'), UPDATED_CARD_SOURCE);
+    const [updatedResult] = await linter.lintFiles(['.']);
+    expect(updatedResult.messages).toEqual([
+      expect.objectContaining({
+        message: expect.stringContaining('"Chip"'),
+        ruleId: 'react-snob/component-prop-interface-naming',
+      }),
+    ]);
+  });
+
+  it('ignores the configured baseline while recording', async () => {
+    await generateBaseline({ cwd, eslint: createLinter(cwd), output: 'baseline.json', patterns: ['.'] });
+
+    const baseline = await generateBaseline({
+      cwd,
+      eslint: createLinter(cwd, { 'react-snob': { baseline: 'baseline.json' } }),
+      output: 'baseline.json',
+      patterns: ['.'],
+    });
+
+    expect(Object.values(baseline.files['Card.tsx'])).toEqual([1, 1, 1]);
+  });
+
+  it('only counts recorded reports that produced a lint message', () => {
+    const filePath = path.join(cwd, 'Card.tsx');
+    const message = {
+      column: 15,
+      line: 6,
+      message: 'Inline style',
+      ruleId: 'react-snob/no-inline-styles',
+      severity: 2,
+    };
+    const results = [{ filePath, messages: [message] }] as unknown as TSESLint.FlatESLint.LintResult[];
+    const recorded = new Map([
+      [
+        filePath,
+        [
+          { column: 15, fingerprint: 'no-inline-styles:JSXAttribute:style', line: 6, ruleName: 'no-inline-styles' },
+          // Disabled through a comment, so ESLint dropped its message
+          { column: 15, fingerprint: 'no-inline-styles:JSXAttribute:style', line: 9, ruleName: 'no-inline-styles' },
+        ],
+      ],
+    ]);
+
+    expect(createBaseline(results, path.join(cwd, 'baseline.json'), recorded)).toEqual({
+      files: { 'Card.tsx': { 'no-inline-styles:JSXAttribute:style': 1 } },
+      version: 1,
+    });
+  });
+});
+
+describe('react-snob-baseline', () => {
+  const originalCwd = process.cwd();
+  let cwd: string;
+  let log: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'react-snob-baseline-cli-'));
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    error = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(cwd, { force: true, recursive: true });
+    log.mockRestore();
+    error.mockRestore();
+  });
+
+  it('prints the usage', async () => {
+    await expect(runBaselineCli(['--help'])).resolves.toBe(0);
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('Usage: react-snob-baseline'));
+  });
+
+  it('fails when the output file is missing', async () => {
+    await expect(runBaselineCli(['--output'])).resolves.toBe(2);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('Missing value for --output'));
+  });
+
+  it('writes the baseline with the project configuration', async () => {
+    fs.writeFileSync(path.join(cwd, '.eslintrc.json'), JSON.stringify({ root: true }));
+    fs.writeFileSync(path.join(cwd, 'index.js'), 'const answer = 42;\n');
+    process.chdir(cwd);
+
+    await expect(runBaselineCli(['-o', 'snob.json', 'index.js'])).resolves.toBe(0);
+    expect(JSON.parse(fs.readFileSync(path.join(cwd, 'snob.json'), 'utf8'))).toEqual({ files: {}, version: 1 });
+    expect(log).toHaveBeenCalledWith('Recorded 0 violation(s) in 0 file(s) to snob.json');
+  });
+});
+
+// Suppression of violations recorded in a baseline file, checked through a single rule
+const BASELINE_SETTINGS = {
+  'react-snob': { baseline: path.resolve(__dirname, 'fixtures/baseline/baseline.json') },
+};
+const BASELINE_FILENAME = path.resolve(__dirname, 'fixtures/baseline/Card.tsx');
+
+const ruleTester = new RuleTester(PARSER_CONFIG);
+ruleTester.run('no-inline-styles (baseline)', noInlineStyles, {
+  invalid: [
+    // Only the recorded number of occurrences is suppressed
+    {
+      code: '<div style={{ color: "red" }}><span style={{ margin: 0 }} /></div>',
+      errors: [{ column: 37, messageId: 'noInlineStyle' as const }],
+      filename: BASELINE_FILENAME,
+      settings: BASELINE_SETTINGS,
+    },
+    // Other files are not covered by the baseline
+    {
+      code: '<div style={{ color: "red" }}>Content</div>',
+      errors: [{ messageId: 'noInlineStyle' as const }],
+      filename: path.resolve(__dirname, 'fixtures/baseline/Header.tsx'),
+      settings: BASELINE_SETTINGS,
+    },
+    // A missing baseline file suppresses nothing
+    {
+      code: '<div style={{ color: "red" }}>Content</div>',
+      errors: [{ messageId: 'noInlineStyle' as const }],
+      filename: BASELINE_FILENAME,
+      settings: { 'react-snob': { baseline: path.resolve(__dirname, 'fixtures/baseline/missing.json') } },
+    },
+  ],
+  valid: [
+    // The fingerprint doesn't depend on the line, so moved code stays suppressed
+    {
+      code: 'const x = 1;\n\nconst card = <div style={{ color: "red" }}>Content</div>;',
+      filename: BASELINE_FILENAME,
+      settings: BASELINE_SETTINGS,
+    },
+  ],
+});
@@ -0,0 +1,60 @@
+import { TSESLint } from '@typescript-eslint/utils';
+
+import plugin from '../src';
+
+const LEGACY_CONFIGS = ['recommended-legacy', 'strict-legacy'] as const;
+const FLAT_CONFIGS = ['all', 'jsx', 'naming', 'recommended', 'recommended-type-checked', 'strict'] as const;
+
+/**
+ * Creates an ESLint 8 instance that only applies the given `.eslintrc` extends entry
+ */
+function createLegacyLinter(extendsEntry: string): TSESLint.LegacyESLint {
+  return new TSESLint.LegacyESLint({
+    overrideConfig: {
+      extends: [extendsEntry],
+      parserOptions: { ecmaFeatures: { jsx: true }, ecmaVersion: 2022, sourceType: 'module' },
+    },
+    plugins: { 'react-snob': plugin },
+    useEslintrc: false,
+  });
+}
+
+describe('legacy configs', () => {
+  it.each(LEGACY_CONFIGS)('loads plugin:react-snob/%s through eslintrc', async (name) => {
+    const eslint = createLegacyLinter(`plugin:react-snob/${name}`);
+
+    const config = await eslint.calculateConfigForFile('Card.jsx');
+    expect(config.plugins).toContain('react-snob');
+    expect(Object.keys(config.rules ?? {}).sort()).toEqual(
+      Object.keys(plugin.rules).map((rule) => `react-snob/${rule}`)
+    );
+
+    const [result] = await eslint.lintText('const card = <div style={{ color: "red" }} />;', { filePath: 'Card.jsx' });
+    expect(result.messages.map(({ ruleId }) => ruleId)).toEqual(['react-snob/no-inline-styles']);
+  });
+});
+
+describe('flat configs', () => {
+  it.each(FLAT_CONFIGS)('registers the plugin and only its rules in %s', (name) => {
+    const config = plugin.configs[name];
+
+    expect(config.plugins).toEqual({ 'react-snob': plugin.plugin });
+    Object.keys(config.rules).forEach((rule) => {
+      expect(plugin.rules).toHaveProperty(rule.replace(/^react-snob\//, ''));
+    });
+  });
+
+  it('enables every registered rule as an error in all', () => {
+    expect(plugin.configs.all.rules).toEqual(
+      Object.fromEntries(Object.keys(plugin.rules).map((rule) => [`react-snob/${rule}`, 'error']))
+    );
+  });
+
+  it('sets projectService and the type-aware options in recommended-type-checked', () => {
+    const config = plugin.configs['recommended-type-checked'];
+
+    expect(config.languageOptions.parserOptions.projectService).toBe(true);
+    expect(Object.keys(config.rules)).toEqual(Object.keys(plugin.configs.recommended.rules));
+    expect(config.rules['react-snob/require-boolean-prefix-is']).toEqual(['warn', { useTypeInformation: true }]);
+  });
+});
@@ -0,0 +1,14 @@
+// Props types imported by the type-aware component-prop-interface-naming tests
+export interface Props {
+  label: string;
+}
+
+export interface CardProps {
+  title: string;
+}
+
+interface Options {
+  variant: string;
+}
+
+export type { Options as ButtonProps, Options as LinkOptions };
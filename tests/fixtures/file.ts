@@ -0,0 +1 @@
+// Placeholder source file so type-aware rule tests are part of the fixture program
@@ -5,6 +5,7 @@ import {
   createValidCase,
   createComponentPropInterfaceNamingInvalidCase,
   PARSER_CONFIG,
+  TYPED_PARSER_CONFIG,
 } from '../../src/utils/test-utils';
 
 // Test cases for basic function components with incorrectly named props interfaces
@@ -17,7 +18,8 @@ const basicFunctionComponentCases = [
       `,
     "React.ComponentProps<'div'>",
     'Card',
-    'CardProps'
+    'CardProps',
+    null
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -30,7 +32,15 @@ const basicFunctionComponentCases = [
       `,
     'ButtonOptions',
     'Button',
-    'ButtonProps'
+    'ButtonProps',
+    `
+        interface ButtonProps {
+          onClick: () => void;
+        }
+        function Button({ onClick }: ButtonProps) {
+          return <button onClick={onClick}>Click me</button>;
+        }
+      `
   ),
 ];
 
@@ -44,7 +54,8 @@ const arrowFunctionComponentCases = [
       `,
     "React.ComponentProps<'div'>",
     'Card',
-    'CardProps'
+    'CardProps',
+    null
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -54,7 +65,8 @@ const arrowFunctionComponentCases = [
       `,
     "React.ComponentProps<'div'>",
     'Card',
-    'CardProps'
+    'CardProps',
+    null
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -68,7 +80,16 @@ const arrowFunctionComponentCases = [
       `,
     'CardData',
     'Card',
-    'CardProps'
+    'CardProps',
+    `
+        interface CardProps {
+          title: string;
+          content: string;
+        }
+        const Card = ({ title, content }: CardProps) => {
+          return <div><h3>{title}</h3><p>{content}</p></div>;
+        };
+      `
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -81,7 +102,15 @@ const arrowFunctionComponentCases = [
       `,
     'HeaderData',
     'Header',
-    'HeaderProps'
+    'HeaderProps',
+    `
+        interface HeaderProps {
+          title: string;
+        }
+        const Header = function({ title }: HeaderProps) {
+          return <h1>{title}</h1>;
+        };
+      `
   ),
 ];
 
@@ -102,7 +131,19 @@ const genericTypeComponentCases = [
   `,
     'DogPenOptions',
     'DogPenFunctionComponent',
-    'DogPenFunctionComponentProps'
+    'DogPenFunctionComponentProps',
+    `
+    import { FunctionComponent } from 'react';
+
+    interface DogPenFunctionComponentProps {
+      name: string;
+    }
+
+    export const DogPenFunctionComponent: FunctionComponent<DogPenFunctionComponentProps> = ({ name }) => {
+      console.log(name);
+      return <></>;
+    };
+  `
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -117,9 +158,21 @@ const genericTypeComponentCases = [
           return <></>;
         };
       `,
-    'ArrowFunctionComponentPassedAsFirstGenericOptions',
+    'ArrowFunctionComponentPassedAsFirstGenericOptions<Children>',
     'ArrowFunctionComponentPassedAsFirstGeneric',
-    'ArrowFunctionComponentPassedAsFirstGenericProps'
+    'ArrowFunctionComponentPassedAsFirstGenericProps',
+    `
+        type ArrowFunctionComponentPassedAsFirstGenericProps<T> = T & {
+          name: string;
+        };
+
+        export const ArrowFunctionComponentPassedAsFirstGeneric: FunctionComponent<
+         ArrowFunctionComponentPassedAsFirstGenericProps<Children>
+        > = ({ children, name }) => {
+          console.log(name);
+          return <></>;
+        };
+      `
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -132,9 +185,19 @@ const genericTypeComponentCases = [
           return <></>;
         };
       `,
-    'ArrowFunctionComponentPassedAsFirstGenericOptions',
+    'ArrowFunctionComponentPassedAsFirstGenericOptions<Children>',
     'ArrowFunctionComponentPassedAsFirstGeneric',
-    'ArrowFunctionComponentPassedAsFirstGenericProps'
+    'ArrowFunctionComponentPassedAsFirstGenericProps',
+    `
+        type ArrowFunctionComponentPassedAsFirstGenericProps<T> = T & {
+          name: string;
+        };
+
+        export const ArrowFunctionComponentPassedAsFirstGeneric = ({ children, name }: ArrowFunctionComponentPassedAsFirstGenericProps<Children>) => {
+          console.log(name);
+          return <></>;
+        };
+      `
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -151,7 +214,19 @@ const genericTypeComponentCases = [
       `,
     'ArrowFunctionComponentPassedAsLastGenericOptions',
     'ArrowFunctionComponentPassedAsLastGeneric',
-    'ArrowFunctionComponentPassedAsLastGenericProps'
+    'ArrowFunctionComponentPassedAsLastGenericProps',
+    `
+        type ArrowFunctionComponentPassedAsLastGenericProps = {
+          name: string;
+        };
+
+        export const ArrowFunctionComponentPassedAsLastGeneric: FunctionComponent<
+         Children<ArrowFunctionComponentPassedAsLastGenericProps>
+        > = ({ children, name }) => {
+          console.log(name);
+          return <></>;
+        };
+      `
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -163,9 +238,18 @@ const genericTypeComponentCases = [
           return <button onClick={onClick}>Click me</button>;
         }
       `,
-    'ButtonConfig',
+    'ButtonConfig<T>',
     'Button',
-    'ButtonProps'
+    'ButtonProps',
+    `
+        type ButtonProps<T> = {
+          onClick: () => void;
+          data: T;
+        }
+        function Button<T>({ onClick, data }: ButtonProps<T>) {
+          return <button onClick={onClick}>Click me</button>;
+        }
+      `
   ),
 ];
 
@@ -182,7 +266,15 @@ const wrappedComponentCases = [
       `,
     'InputConfig',
     'Input',
-    'InputProps'
+    'InputProps',
+    `
+        interface InputProps {
+          placeholder: string;
+        }
+        const Input = forwardRef<HTMLInputElement, InputProps>(({ placeholder }, ref) => {
+          return <input ref={ref} placeholder={placeholder} />;
+        });
+      `
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -195,7 +287,15 @@ const wrappedComponentCases = [
       `,
     'MemoSettings',
     'MemoComponent',
-    'MemoComponentProps'
+    'MemoComponentProps',
+    `
+        interface MemoComponentProps {
+          value: string;
+        }
+        const MemoComponent = memo(({ value }: MemoComponentProps) => {
+          return <div>{value}</div>;
+        });
+      `
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -208,7 +308,15 @@ const wrappedComponentCases = [
       `,
     'CustomInputSettings',
     'CustomInput',
-    'CustomInputProps'
+    'CustomInputProps',
+    `
+        interface CustomInputProps {
+          value: string;
+        }
+        const CustomInput = forwardRef<HTMLInputElement, CustomInputProps>(
+          ({ value }, ref) => <input ref={ref} value={value} />
+        );
+      `
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -221,7 +329,15 @@ const wrappedComponentCases = [
       `,
     'InputSettings',
     'Input',
-    'InputProps'
+    'InputProps',
+    `
+        interface InputProps {
+          placeholder: string;
+        }
+        const Input = memo(forwardRef<HTMLInputElement, InputProps>(
+          ({ placeholder }, ref) => <input ref={ref} placeholder={placeholder} />
+        ));
+      `
   ),
 ];
 
@@ -238,7 +354,15 @@ const typeAliasCases = [
       `,
     'ButtonOptions',
     'Button',
-    'ButtonProps'
+    'ButtonProps',
+    `
+        type ButtonProps = {
+          onClick: () => void;
+        }
+        function Button({ onClick }: ButtonProps) {
+          return <button onClick={onClick}>Click me</button>;
+        }
+      `
   ),
 ];
 
@@ -255,7 +379,15 @@ const wrongPropsSuffixCases = [
       `,
     'ComponentProps',
     'MyButton',
-    'MyButtonProps'
+    'MyButtonProps',
+    `
+        interface MyButtonProps {
+          value: string;
+        }
+        function MyButton({ value }: MyButtonProps) {
+          return <button>{value}</button>;
+        }
+      `
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -268,7 +400,15 @@ const wrongPropsSuffixCases = [
       `,
     'RandomProps',
     'SpecificButton',
-    'SpecificButtonProps'
+    'SpecificButtonProps',
+    `
+        interface SpecificButtonProps {
+          value: string;
+        }
+        function SpecificButton({ value }: SpecificButtonProps) {
+          return <button>{value}</button>;
+        }
+      `
   ),
 ];
 
@@ -286,7 +426,16 @@ const exportedComponentCases = [
       `,
     'FileDrawerSettings',
     'FileDrawer',
-    'FileDrawerProps'
+    'FileDrawerProps',
+    `
+        interface FileDrawerProps {
+          isOpen: boolean;
+          onClose: () => void;
+        }
+        function FileDrawer({ isOpen, onClose }: FileDrawerProps) {
+          return isOpen ? <div onClick={onClose}>Drawer</div> : null;
+        }
+      `
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -299,7 +448,15 @@ const exportedComponentCases = [
       `,
     'UserOptions',
     'UserComponent',
-    'UserComponentProps'
+    'UserComponentProps',
+    `
+        interface UserComponentProps {
+          id: number;
+        }
+        function UserComponent({ id }: UserComponentProps) {
+          return <div>User {id}</div>;
+        }
+      `
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -312,7 +469,15 @@ const exportedComponentCases = [
       `,
     'ButtonConfig',
     'Button',
-    'ButtonProps'
+    'ButtonProps',
+    `
+        interface ButtonProps {
+          label: string;
+        }
+        export function Button({ label }: ButtonProps) {
+          return <button>{label}</button>;
+        }
+      `
   ),
   createComponentPropInterfaceNamingInvalidCase(
     `
@@ -325,7 +490,15 @@ const exportedComponentCases = [
       `,
     'HeaderData',
     'Header',
-    'HeaderProps'
+    'HeaderProps',
+    `
+        interface HeaderProps {
+          title: string;
+        }
+        export default function Header({ title }: HeaderProps) {
+          return <h1>{title}</h1>;
+        }
+      `
   ),
 ];
 
@@ -562,6 +735,836 @@ const complexComponentCases = [
       `),
 ];
 
+// Test cases for rename suggestions that update every same-file reference
+const renameSuggestionCases = [
+  createComponentPropInterfaceNamingInvalidCase(
+    `
+        type CardData = {
+          title: string;
+        };
+        function Card({ title }: CardData) {
+          const defaults: Partial<CardData> = {};
+          return <h3>{title ?? defaults.title}</h3>;
+        }
+      `,
+    'CardData',
+    'Card',
+    'CardProps',
+    `
+        type CardProps = {
+          title: string;
+        };
+        function Card({ title }: CardProps) {
+          const defaults: Partial<CardProps> = {};
+          return <h3>{title ?? defaults.title}</h3>;
+        }
+      `
+  ),
+];
+
+// Test cases where the props type cannot be renamed safely, so no suggestion is offered
+const unsafeRenameCases = [
+  createComponentPropInterfaceNamingInvalidCase(
+    `
+        import type { CardData } from './types';
+        function Card({ title }: CardData) {
+          return <h3>{title}</h3>;
+        }
+      `,
+    'CardData',
+    'Card',
+    'CardProps',
+    null
+  ),
+  createComponentPropInterfaceNamingInvalidCase(
+    `
+        export interface CardData {
+          title: string;
+        }
+        function Card({ title }: CardData) {
+          return <h3>{title}</h3>;
+        }
+      `,
+    'CardData',
+    'Card',
+    'CardProps',
+    null
+  ),
+  {
+    code: `
+        interface ItemData {
+          label: string;
+        }
+        function Item({ label }: ItemData) {
+          return <li>{label}</li>;
+        }
+        function Tile({ label }: ItemData) {
+          return <div>{label}</div>;
+        }
+      `,
+    errors: [
+      {
+        data: { actual: 'ItemData', component: 'Item', expected: 'ItemProps' },
+        messageId: 'incorrectPropsInterfaceName' as const,
+        suggestions: [],
+      },
+      {
+        data: { actual: 'ItemData', component: 'Tile', expected: 'TileProps' },
+        messageId: 'incorrectPropsInterfaceName' as const,
+        suggestions: [],
+      },
+    ],
+  },
+  createComponentPropInterfaceNamingInvalidCase(
+    `
+        interface ButtonProps {
+          kind: string;
+        }
+        interface ButtonOptions {
+          label: string;
+        }
+        function Button({ label }: ButtonOptions) {
+          return <button>{label}</button>;
+        }
+      `,
+    'ButtonOptions',
+    'Button',
+    'ButtonProps',
+    null
+  ),
+];
+
+// Test cases for custom naming templates and props suffixes
+const customOptionCases = [
+  {
+    ...createComponentPropInterfaceNamingInvalidCase(
+      `
+        interface ButtonProps {
+          label: string;
+        }
+        function Button({ label }: ButtonProps) {
+          return <button>{label}</button>;
+        }
+      `,
+      'ButtonProps',
+      'Button',
+      'IButtonProps',
+      `
+        interface IButtonProps {
+          label: string;
+        }
+        function Button({ label }: IButtonProps) {
+          return <button>{label}</button>;
+        }
+      `
+    ),
+    options: [{ namingTemplate: 'I{Component}Props' }],
+  },
+  {
+    ...createComponentPropInterfaceNamingInvalidCase(
+      `
+        type DialogAttrs = {
+          title: string;
+        };
+        export const Dialog: FunctionComponent<WithChildren<DialogAttrs>> = ({ title }) => {
+          return <div>{title}</div>;
+        };
+      `,
+      'DialogAttrs',
+      'Dialog',
+      'DialogProps',
+      `
+        type DialogProps = {
+          title: string;
+        };
+        export const Dialog: FunctionComponent<WithChildren<DialogProps>> = ({ title }) => {
+          return <div>{title}</div>;
+        };
+      `
+    ),
+    options: [{ propsSuffixes: ['Props', 'Attrs'] }],
+  },
+  {
+    ...createComponentPropInterfaceNamingInvalidCase(
+      `
+        function Card({ className }: React.ComponentProps<'div'>) {
+          return <div className={className} />;
+        }
+      `,
+      "React.ComponentProps<'div'>",
+      'Card',
+      'CardProps',
+      null
+    ),
+    options: [{ ignoredTypes: ['React.HTMLAttributes<*>'] }],
+  },
+];
+
+// Test cases for components that satisfy custom options
+const customOptionValidCases = [
+  {
+    code: `
+      interface IButtonProps {
+        label: string;
+      }
+      function Button({ label }: IButtonProps) {
+        return <button>{label}</button>;
+      }
+    `,
+    options: [{ namingTemplate: 'I{Component}Props' }],
+  },
+  {
+    code: `
+      function Card({ className }: React.ComponentProps<'div'>) {
+        return <div className={className} />;
+      }
+      const Link = forwardRef<HTMLAnchorElement, React.ComponentPropsWithoutRef<'a'>>((props, ref) => (
+        <a ref={ref} {...props} />
+      ));
+    `,
+    options: [{ ignoredTypes: ['React.ComponentProps<*>', 'React.ComponentPropsWithoutRef<*>'] }],
+  },
+  {
+    code: `
+      function Avatar({ src }: ExternalAvatarProps) {
+        return <img src={src} />;
+      }
+    `,
+    options: [{ ignoredTypes: ['ExternalAvatarProps'] }],
+  },
+];
+
+// Test cases for component wrappers configured through settings['react-snob']
+const componentWrapperSettingsCases = {
+  invalid: [
+    {
+      ...createComponentPropInterfaceNamingInvalidCase(
+        `
+        interface TodoListData {
+          todos: string[];
+        }
+        const TodoList = observer(({ todos }: TodoListData) => {
+          return <ul>{todos.length}</ul>;
+        });
+      `,
+        'TodoListData',
+        'TodoList',
+        'TodoListProps',
+        `
+        interface TodoListProps {
+          todos: string[];
+        }
+        const TodoList = observer(({ todos }: TodoListProps) => {
+          return <ul>{todos.length}</ul>;
+        });
+      `
+      ),
+      settings: { 'react-snob': { componentWrappers: ['observer', 'memo', 'forwardRef'] } },
+    },
+    createComponentPropInterfaceNamingInvalidCase(
+      `
+        interface FieldConfig {
+          label: string;
+        }
+        const Field = React.forwardRef<HTMLInputElement, FieldConfig>(({ label }, ref) => {
+          return <input aria-label={label} ref={ref} />;
+        });
+      `,
+      'FieldConfig',
+      'Field',
+      'FieldProps',
+      `
+        interface FieldProps {
+          label: string;
+        }
+        const Field = React.forwardRef<HTMLInputElement, FieldProps>(({ label }, ref) => {
+          return <input aria-label={label} ref={ref} />;
+        });
+      `
+    ),
+  ],
+  valid: [
+    // Calls that are not component wrappers are not unwrapped
+    createValidCase(`
+      interface TodoListData {
+        todos: string[];
+      }
+      const TodoList = observer(({ todos }: TodoListData) => {
+        return <ul>{todos.length}</ul>;
+      });
+    `),
+    createValidCase(`
+      const Schema = z.object(({ name }: SchemaInput) => name);
+    `),
+  ],
+};
+
+// Test cases for component detection beyond naming (JSX, hooks, wrappers, anonymous default exports)
+const componentDetectionCases = {
+  invalid: [
+    {
+      ...createComponentPropInterfaceNamingInvalidCase(
+        `
+        interface CardData {
+          name: string;
+        }
+        export default function ({ name }: CardData) {
+          return <div>{name}</div>;
+        }
+      `,
+        'CardData',
+        'UserCard',
+        'UserCardProps',
+        `
+        interface UserCardProps {
+          name: string;
+        }
+        export default function ({ name }: UserCardProps) {
+          return <div>{name}</div>;
+        }
+      `
+      ),
+      filename: 'UserCard.tsx',
+    },
+    {
+      ...createComponentPropInterfaceNamingInvalidCase(
+        `
+        interface CardData {
+          name: string;
+        }
+        export default ({ name }: CardData) => <div>{name}</div>;
+      `,
+        'CardData',
+        'UserCard',
+        'UserCardProps',
+        `
+        interface UserCardProps {
+          name: string;
+        }
+        export default ({ name }: UserCardProps) => <div>{name}</div>;
+      `
+      ),
+      filename: 'components/user-card/index.tsx',
+    },
+    createComponentPropInterfaceNamingInvalidCase(
+      `
+        interface TrackerData {
+          id: string;
+        }
+        function Tracker({ id }: TrackerData) {
+          useEffect(() => track(id), [id]);
+          return null;
+        }
+      `,
+      'TrackerData',
+      'Tracker',
+      'TrackerProps',
+      `
+        interface TrackerProps {
+          id: string;
+        }
+        function Tracker({ id }: TrackerProps) {
+          useEffect(() => track(id), [id]);
+          return null;
+        }
+      `
+    ),
+  ],
+  valid: [
+    createValidCase(`
+      const API_URL = 'https://example.com';
+      const Schema = z.object({ name: z.string() });
+    `),
+    createValidCase(`
+      const Formatter = ({ value }: FormatterData) => value.toFixed(2);
+      function Parser({ input }: ParserInput) {
+        return input.split(',');
+      }
+    `),
+    createValidCase(`
+      function Layout({ children }: LayoutProps) {
+        return [1, 2].map((item) => <div key={item}>{children}</div>);
+      }
+    `),
+  ],
+};
+
+// Test cases for class components
+const classComponentCases = {
+  invalid: [
+    createComponentPropInterfaceNamingInvalidCase(
+      `
+        interface ProfileData {
+          name: string;
+        }
+        class Profile extends React.Component<ProfileData> {
+          render() {
+            return <div>{this.props.name}</div>;
+          }
+        }
+      `,
+      'ProfileData',
+      'Profile',
+      'ProfileProps',
+      `
+        interface ProfileProps {
+          name: string;
+        }
+        class Profile extends React.Component<ProfileProps> {
+          render() {
+            return <div>{this.props.name}</div>;
+          }
+        }
+      `
+    ),
+    createComponentPropInterfaceNamingInvalidCase(
+      `
+        type SettingsScreenOptions = { userId: string };
+        export class SettingsScreen extends PureComponent<SettingsScreenOptions, SettingsScreenData> {
+          render() {
+            return null;
+          }
+        }
+      `,
+      'SettingsScreenOptions',
+      'SettingsScreen',
+      'SettingsScreenProps',
+      `
+        type SettingsScreenProps = { userId: string };
+        export class SettingsScreen extends PureComponent<SettingsScreenProps, SettingsScreenData> {
+          render() {
+            return null;
+          }
+        }
+      `
+    ),
+    {
+      code: `
+        interface CounterProps {
+          initial: number;
+        }
+        interface CounterData {
+          count: number;
+        }
+        class Counter extends Component<CounterProps, CounterData> {
+          state = { count: this.props.initial };
+        }
+      `,
+      errors: [
+        {
+          data: { actual: 'CounterData', component: 'Counter', expected: 'CounterState' },
+          messageId: 'incorrectStateInterfaceName' as const,
+          suggestions: [
+            {
+              data: { actual: 'CounterData', expected: 'CounterState' },
+              messageId: 'renameStateInterface' as const,
+              output: `
+        interface CounterProps {
+          initial: number;
+        }
+        interface CounterState {
+          count: number;
+        }
+        class Counter extends Component<CounterProps, CounterState> {
+          state = { count: this.props.initial };
+        }
+      `,
+            },
+          ],
+        },
+      ],
+      options: [{ checkState: true }],
+    },
+    {
+      ...createComponentPropInterfaceNamingInvalidCase(
+        `
+        interface Data {
+          name: string;
+        }
+        export default class extends React.Component<Data> {}
+      `,
+        'Data',
+        'UserCard',
+        'UserCardProps',
+        `
+        interface UserCardProps {
+          name: string;
+        }
+        export default class extends React.Component<UserCardProps> {}
+      `
+      ),
+      filename: 'UserCard.tsx',
+    },
+  ],
+  valid: [
+    createValidCase(`
+      class Profile extends React.Component<ProfileProps, ProfileData> {
+        render() {
+          return <div>{this.props.name}</div>;
+        }
+      }
+    `),
+    {
+      code: `
+        class Counter extends React.PureComponent<CounterProps, CounterState> {}
+      `,
+      options: [{ checkState: true }],
+    },
+    {
+      code: `
+        class Counter extends React.Component<CounterProps, ICounterState> {}
+      `,
+      options: [{ checkState: true, stateNamingTemplate: 'I{Component}State' }],
+    },
+    createValidCase(`
+      class ApiClient extends BaseClient<ClientOptions> {}
+      class Profile extends React.Component {}
+    `),
+  ],
+};
+
+// Test cases for generic props types and generic components wrapped in forwardRef
+const genericPropsCases = {
+  invalid: [
+    createComponentPropInterfaceNamingInvalidCase(
+      `
+        type SelectConfig<Option, Group> = { options: Option[]; groups: Group };
+        function Select<Option>({ options }: SelectConfig<Option, string[]>) {
+          return <select>{options.length}</select>;
+        }
+      `,
+      'SelectConfig<Option, string[]>',
+      'Select',
+      'SelectProps',
+      `
+        type SelectProps<Option, Group> = { options: Option[]; groups: Group };
+        function Select<Option>({ options }: SelectProps<Option, string[]>) {
+          return <select>{options.length}</select>;
+        }
+      `
+    ),
+    createComponentPropInterfaceNamingInvalidCase(
+      `
+        function Select<T>({ value }: Forms.FieldOptions<T | null, 'select'>) {
+          return <select value={value} />;
+        }
+      `,
+      "Forms.FieldOptions<T | null, 'select'>",
+      'Select',
+      'SelectProps',
+      null
+    ),
+    // The inner render function shares its props type with the cast, so no rename is suggested
+    createComponentPropInterfaceNamingInvalidCase(
+      `
+        interface SelectOptions<T> { items: T[] }
+        function SelectInner<T>({ items }: SelectOptions<T>, ref: ForwardedRef<HTMLUListElement>) {
+          return <ul ref={ref}>{items.length}</ul>;
+        }
+        export const Select = forwardRef(SelectInner) as <T>(
+          props: SelectOptions<T> & { ref?: Ref<HTMLUListElement> }
+        ) => ReturnType<typeof SelectInner>;
+      `,
+      'SelectOptions<T>',
+      'Select',
+      'SelectProps',
+      null
+    ),
+    {
+      ...createComponentPropInterfaceNamingInvalidCase(
+        `
+          interface TableOptions<Row> { rows: Row[] }
+          const TableInner = <Row,>({ rows }: TableOptions<Row>, ref: ForwardedRef<HTMLTableElement>) => (
+            <table ref={ref}>{rows.length}</table>
+          );
+          export const Table = fixedForwardRef(TableInner);
+        `,
+        'TableOptions<Row>',
+        'Table',
+        'TableProps',
+        null
+      ),
+      settings: { 'react-snob': { componentWrappers: ['fixedForwardRef', 'forwardRef'] } },
+    },
+  ],
+  valid: [
+    createValidCase(`
+      interface SelectProps<Option, Group> { options: Option[]; groups: Group[] }
+      function Select<Option, Group>({ options }: SelectProps<Option, Group>) {
+        return <select>{options.length}</select>;
+      }
+    `),
+    // Qualified generic props types are compared on their name: UI.ListProps<T> -> ListProps
+    createValidCase(`
+      export const List = <T,>({ items }: UI.ListProps<T>) => <ul>{items.length}</ul>;
+    `),
+    createValidCase(`
+      interface SelectProps<T> { items: T[] }
+      function SelectInner<T>({ items }: SelectProps<T>, ref: ForwardedRef<HTMLUListElement>) {
+        return <ul ref={ref}>{items.length}</ul>;
+      }
+      export const Select = forwardRef(SelectInner) as <T>(
+        props: SelectProps<T> & { ref?: Ref<HTMLUListElement> }
+      ) => ReturnType<typeof SelectInner>;
+    `),
+    createValidCase(`
+      export const Select = React.forwardRef<HTMLDivElement, SelectProps<Option>>(({ value }, ref) => (
+        <div ref={ref}>{value}</div>
+      ));
+    `),
+  ],
+};
+
+// Test cases for inline, intersection, union and utility props types
+const propsTypeShapeCases = {
+  invalid: [
+    {
+      code: `
+        function Button({ label }: { label: string }) {
+          return <button>{label}</button>;
+        }
+      `,
+      errors: [
+        {
+          data: { component: 'Button', expected: 'ButtonProps', shape: 'an inline type literal' },
+          messageId: 'requireNamedPropsType' as const,
+          suggestions: [
+            {
+              data: { expected: 'ButtonProps' },
+              messageId: 'extractPropsType' as const,
+              output: `
+        interface ButtonProps { label: string }
+
+        function Button({ label }: ButtonProps) {
+          return <button>{label}</button>;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+      options: [{ inlineTypes: 'require-named' as const }],
+    },
+    {
+      code: `
+        export const Button = ({ variant }: BaseProps & VariantProps<typeof button>) => (
+          <button className={variant} />
+        );
+      `,
+      errors: [
+        {
+          data: { actual: 'BaseProps & VariantProps<typeof button>', component: 'Button', expected: 'ButtonProps' },
+          messageId: 'missingPropsTypeMember' as const,
+        },
+      ],
+      options: [{ intersectionTypes: 'require-props-member' as const }],
+    },
+    // Utility types can be required to be named
+    {
+      code: `
+        function Button({ label }: Omit<BaseProps, 'id'>) {
+          return <button>{label}</button>;
+        }
+      `,
+      errors: [
+        {
+          data: { component: 'Button', expected: 'ButtonProps', shape: `the utility type "Omit<BaseProps, 'id'>"` },
+          messageId: 'requireNamedPropsType' as const,
+          suggestions: [
+            {
+              data: { expected: 'ButtonProps' },
+              messageId: 'extractPropsType' as const,
+              output: `
+        type ButtonProps = Omit<BaseProps, 'id'>;
+
+        function Button({ label }: ButtonProps) {
+          return <button>{label}</button>;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+      options: [{ utilityTypes: 'require-named' as const }],
+    },
+    {
+      code: `
+        export const Alert: FC<InfoProps | ErrorProps> = ({ message }) => <p>{message}</p>;
+      `,
+      errors: [
+        {
+          data: { component: 'Alert', expected: 'AlertProps', shape: 'the union "InfoProps | ErrorProps"' },
+          messageId: 'requireNamedPropsType' as const,
+          suggestions: [
+            {
+              data: { expected: 'AlertProps' },
+              messageId: 'extractPropsType' as const,
+              output: `
+        type AlertProps = InfoProps | ErrorProps;
+
+        export const Alert: FC<AlertProps> = ({ message }) => <p>{message}</p>;
+      `,
+            },
+          ],
+        },
+      ],
+      options: [{ unionTypes: 'require-named' as const }],
+    },
+    {
+      code: `
+        class Panel extends React.Component<{ title: string }> {
+          render() {
+            return <h2>{this.props.title}</h2>;
+          }
+        }
+      `,
+      errors: [
+        {
+          data: { component: 'Panel', expected: 'PanelProps', shape: 'an inline type literal' },
+          messageId: 'requireNamedPropsType' as const,
+          suggestions: [
+            {
+              data: { expected: 'PanelProps' },
+              messageId: 'extractPropsType' as const,
+              output: `
+        interface PanelProps { title: string }
+
+        class Panel extends React.Component<PanelProps> {
+          render() {
+            return <h2>{this.props.title}</h2>;
+          }
+        }
+      `,
+            },
+          ],
+        },
+      ],
+      options: [{ inlineTypes: 'require-named' as const }],
+    },
+    // Inline types using the component's type parameters can't be moved out of it
+    {
+      code: `
+        function List<T>({ items }: { items: T[] }) {
+          return <ul>{items.length}</ul>;
+        }
+      `,
+      errors: [
+        {
+          data: { component: 'List', expected: 'ListProps', shape: 'an inline type literal' },
+          messageId: 'requireNamedPropsType' as const,
+          suggestions: [],
+        },
+      ],
+      options: [{ inlineTypes: 'require-named' as const }],
+    },
+    // Type parameters the inline type doesn't use don't prevent moving it out of the component
+    {
+      code: `
+        function List<T>({ count }: { count: number }) {
+          return <ul>{count}</ul>;
+        }
+      `,
+      errors: [
+        {
+          data: { component: 'List', expected: 'ListProps', shape: 'an inline type literal' },
+          messageId: 'requireNamedPropsType' as const,
+          suggestions: [
+            {
+              data: { expected: 'ListProps' },
+              messageId: 'extractPropsType' as const,
+              output: `
+        interface ListProps { count: number }
+
+        function List<T>({ count }: ListProps) {
+          return <ul>{count}</ul>;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+      options: [{ inlineTypes: 'require-named' as const }],
+    },
+  ],
+  valid: [
+    createValidCase(`
+      export const Alert: FC<InfoProps | ErrorProps> = ({ message }) => <p>{message}</p>;
+    `),
+    createValidCase(`
+      export const Button = ({ variant }: BaseProps & VariantProps<typeof button>) => <button className={variant} />;
+    `),
+    {
+      code: `
+        export const Button = ({ variant }: ButtonProps & VariantProps<typeof button>) => (
+          <button className={variant} />
+        );
+      `,
+      options: [{ intersectionTypes: 'require-props-member' as const }],
+    },
+    // Utility types are allowed by default
+    {
+      code: `
+        function Button({ label }: Omit<BaseProps, 'id'>) {
+          return <button>{label}</button>;
+        }
+      `,
+    },
+    {
+      code: `
+        function Button({ label }: Omit<BaseProps, 'id'>) {
+          return <button>{label}</button>;
+        }
+      `,
+      options: [{ ignoredTypes: ['Omit<*>'], utilityTypes: 'require-named' as const }],
+    },
+  ],
+};
+
+// Test cases for components and type names skipped through the ignore option
+const IGNORE_OPTIONS = [{ ignore: ['LegacyCard', '/Fragment$/'] }];
+
+const ignoreOptionCases = {
+  invalid: [
+    {
+      ...createComponentPropInterfaceNamingInvalidCase(
+        `
+        interface AvatarAttrs {
+          src: string;
+        }
+        function Avatar({ src }: AvatarAttrs) {
+          return <img src={src} />;
+        }
+      `,
+        'AvatarAttrs',
+        'Avatar',
+        'AvatarProps',
+        `
+        interface AvatarProps {
+          src: string;
+        }
+        function Avatar({ src }: AvatarProps) {
+          return <img src={src} />;
+        }
+      `
+      ),
+      options: IGNORE_OPTIONS,
+    },
+  ],
+  valid: [
+    {
+      code: `
+        function LegacyCard({ title }: CardAttrs) {
+          return <div>{title}</div>;
+        }
+        function Profile({ user }: ProfileFieldsFragment) {
+          return <div>{user.name}</div>;
+        }
+      `,
+      options: IGNORE_OPTIONS,
+    },
+  ],
+};
+
 const TEST_CASES = {
   invalid: [
     ...basicFunctionComponentCases,
@@ -571,9 +1574,93 @@ const TEST_CASES = {
     ...typeAliasCases,
     ...wrongPropsSuffixCases,
     ...exportedComponentCases,
+    ...renameSuggestionCases,
+    ...unsafeRenameCases,
+    ...customOptionCases,
+    ...componentWrapperSettingsCases.invalid,
+    ...componentDetectionCases.invalid,
+    ...classComponentCases.invalid,
+    ...genericPropsCases.invalid,
+    ...propsTypeShapeCases.invalid,
+    ...ignoreOptionCases.invalid,
+  ],
+  valid: [
+    ...correctlyNamedCases,
+    ...ignoredComponentCases,
+    ...complexComponentCases,
+    ...customOptionValidCases,
+    ...componentWrapperSettingsCases.valid,
+    ...componentDetectionCases.valid,
+    ...classComponentCases.valid,
+    ...genericPropsCases.valid,
+    ...propsTypeShapeCases.valid,
+    ...ignoreOptionCases.valid,
   ],
-  valid: [...correctlyNamedCases, ...ignoredComponentCases, ...complexComponentCases],
 };
 
 const ruleTester = new RuleTester(PARSER_CONFIG);
 ruleTester.run('component-prop-interface-naming', componentPropInterfaceNaming, TEST_CASES);
+
+// Test cases for props types imported from other files, resolved through the type checker
+const importedTypeCases = {
+  invalid: [
+    {
+      code: `
+        import type { Props } from './component-props';
+        export function Button({ label }: Props) { return <button>{label}</button>; }
+      `,
+      errors: [
+        {
+          data: {
+            actual: 'Props',
+            component: 'Button',
+            expected: 'ButtonProps',
+            file: './component-props.ts',
+          },
+          messageId: 'incorrectImportedPropsInterfaceName' as const,
+        },
+      ],
+      options: [{ resolveImportedTypes: true }],
+    },
+    // Aliases are followed to the declaration, whose name is reported
+    {
+      code: `
+        import type { LinkOptions } from './component-props';
+        export const Tab = ({ variant }: LinkOptions) => <a className={variant} />;
+      `,
+      errors: [
+        {
+          data: {
+            actual: 'Options',
+            component: 'Tab',
+            expected: 'TabProps',
+            file: './component-props.ts',
+          },
+          messageId: 'incorrectImportedPropsInterfaceName' as const,
+        },
+      ],
+      options: [{ resolveImportedTypes: true }],
+    },
+  ],
+  valid: [
+    // Re-exported under the expected name: export type { Options as ButtonProps }
+    {
+      code: `
+        import type { ButtonProps } from './component-props';
+        export const Button = ({ variant }: ButtonProps) => <button className={variant} />;
+      `,
+      options: [{ resolveImportedTypes: true }],
+    },
+    // Imported under a local alias that differs from the exported name
+    {
+      code: `
+        import type { CardProps as Props } from './component-props';
+        export function Card({ title }: Props) { return <h2>{title}</h2>; }
+      `,
+      options: [{ resolveImportedTypes: true }],
+    },
+  ],
+};
+
+const typedRuleTester = new RuleTester(TYPED_PARSER_CONFIG);
+typedRuleTester.run('component-prop-interface-naming (type-aware)', componentPropInterfaceNaming, importedTypeCases);
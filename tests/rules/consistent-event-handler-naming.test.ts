@@ -12,7 +12,19 @@ const missingHandlePrefixCases = [
         return <button onClick={onClick}>Click me</button>;
       }
     `,
-    [{ actual: 'onClick', context: 'internal', expected: 'handleClick' }]
+    [
+      {
+        actual: 'onClick',
+        context: 'internal',
+        expected: 'handleClick',
+        suggestionOutput: `
+      function Component() {
+        const handleClick = () => {};
+        return <button onClick={handleClick}>Click me</button>;
+      }
+    `,
+      },
+    ]
   ),
 ];
 
@@ -32,8 +44,40 @@ const wrongPrefixPatternCases = [
       }
     `,
     [
-      { actual: 'clickHandler', context: 'internal', expected: 'handleClick' },
-      { actual: 'submitFn', context: 'internal', expected: 'handleSubmit' },
+      {
+        actual: 'clickHandler',
+        context: 'internal',
+        expected: 'handleClick',
+        suggestionOutput: `
+      function Component() {
+        const handleClick = () => {};
+        const submitFn = () => {};
+        return (
+          <div>
+            <button onClick={handleClick}>Click me</button>
+            <form onSubmit={submitFn}>Submit</form>
+          </div>
+        );
+      }
+    `,
+      },
+      {
+        actual: 'submitFn',
+        context: 'internal',
+        expected: 'handleSubmit',
+        suggestionOutput: `
+      function Component() {
+        const clickHandler = () => {};
+        const handleSubmit = () => {};
+        return (
+          <div>
+            <button onClick={clickHandler}>Click me</button>
+            <form onSubmit={handleSubmit}>Submit</form>
+          </div>
+        );
+      }
+    `,
+      },
     ]
   ),
 ];
@@ -54,8 +98,40 @@ const functionDeclarationCases = [
       }
     `,
     [
-      { actual: 'clickHandler', context: 'internal', expected: 'handleClick' },
-      { actual: 'onSubmit', context: 'internal', expected: 'handleSubmit' },
+      {
+        actual: 'clickHandler',
+        context: 'internal',
+        expected: 'handleClick',
+        suggestionOutput: `
+      function Component() {
+        function handleClick() {}
+        function onSubmit() {}
+        return (
+          <div>
+            <button onClick={handleClick}>Click me</button>
+            <form onSubmit={onSubmit}>Submit</form>
+          </div>
+        );
+      }
+    `,
+      },
+      {
+        actual: 'onSubmit',
+        context: 'internal',
+        expected: 'handleSubmit',
+        suggestionOutput: `
+      function Component() {
+        function clickHandler() {}
+        function handleSubmit() {}
+        return (
+          <div>
+            <button onClick={clickHandler}>Click me</button>
+            <form onSubmit={handleSubmit}>Submit</form>
+          </div>
+        );
+      }
+    `,
+      },
     ]
   ),
 ];
@@ -76,8 +152,40 @@ const useCallbackCases = [
       }
     `,
     [
-      { actual: 'clickCallback', context: 'internal', expected: 'handleClick' },
-      { actual: 'submitHandler', context: 'internal', expected: 'handleSubmit' },
+      {
+        actual: 'clickCallback',
+        context: 'internal',
+        expected: 'handleClick',
+        suggestionOutput: `
+      function Component() {
+        const handleClick = useCallback(() => {}, []);
+        const submitHandler = useCallback((e) => {}, []);
+        return (
+          <div>
+            <button onClick={handleClick}>Click me</button>
+            <form onSubmit={submitHandler}>Submit</form>
+          </div>
+        );
+      }
+    `,
+      },
+      {
+        actual: 'submitHandler',
+        context: 'internal',
+        expected: 'handleSubmit',
+        suggestionOutput: `
+      function Component() {
+        const clickCallback = useCallback(() => {}, []);
+        const handleSubmit = useCallback((e) => {}, []);
+        return (
+          <div>
+            <button onClick={clickCallback}>Click me</button>
+            <form onSubmit={handleSubmit}>Submit</form>
+          </div>
+        );
+      }
+    `,
+      },
     ]
   ),
 ];
@@ -148,8 +256,52 @@ const mixedIncorrectNamingCases = [
     [
       { actual: 'clickCallback', context: 'prop', expected: 'onClick' },
       { actual: 'changeHandler', context: 'prop', expected: 'onChange' },
-      { actual: 'submitFn', context: 'internal', expected: 'handleSubmit' },
-      { actual: 'onFocus', context: 'internal', expected: 'handleFocus' },
+      {
+        actual: 'submitFn',
+        context: 'internal',
+        expected: 'handleSubmit',
+        suggestionOutput: `
+      interface ComponentProps {
+        clickCallback: () => void;
+        changeHandler: (value: string) => void;
+      }
+      
+      function Component({ clickCallback, changeHandler }: ComponentProps) {
+        const handleSubmit = () => {};
+        const onFocus = () => {};
+        
+        return (
+          <form onSubmit={handleSubmit}>
+            <input onChange={changeHandler} onFocus={onFocus} />
+            <button onClick={clickCallback}>Submit</button>
+          </form>
+        );
+      }
+    `,
+      },
+      {
+        actual: 'onFocus',
+        context: 'internal',
+        expected: 'handleFocus',
+        suggestionOutput: `
+      interface ComponentProps {
+        clickCallback: () => void;
+        changeHandler: (value: string) => void;
+      }
+      
+      function Component({ clickCallback, changeHandler }: ComponentProps) {
+        const submitFn = () => {};
+        const handleFocus = () => {};
+        
+        return (
+          <form onSubmit={submitFn}>
+            <input onChange={changeHandler} onFocus={handleFocus} />
+            <button onClick={clickCallback}>Submit</button>
+          </form>
+        );
+      }
+    `,
+      },
     ]
   ),
 ];
@@ -175,9 +327,72 @@ const nonStandardEventCases = [
       }
     `,
     [
-      { actual: 'dragEndCallback', context: 'internal', expected: 'handleDragEnd' },
-      { actual: 'mouseEnterFn', context: 'internal', expected: 'handleMouseEnter' },
-      { actual: 'keyPressHandler', context: 'internal', expected: 'handleKeyPress' },
+      {
+        actual: 'dragEndCallback',
+        context: 'internal',
+        expected: 'handleDragEnd',
+        suggestionOutput: `
+      function Component() {
+        const handleDragEnd = () => {};
+        const mouseEnterFn = () => {};
+        const keyPressHandler = () => {};
+        
+        return (
+          <div 
+            onDragEnd={handleDragEnd}
+            onMouseEnter={mouseEnterFn}
+            onKeyPress={keyPressHandler}
+          >
+            Content
+          </div>
+        );
+      }
+    `,
+      },
+      {
+        actual: 'mouseEnterFn',
+        context: 'internal',
+        expected: 'handleMouseEnter',
+        suggestionOutput: `
+      function Component() {
+        const dragEndCallback = () => {};
+        const handleMouseEnter = () => {};
+        const keyPressHandler = () => {};
+        
+        return (
+          <div 
+            onDragEnd={dragEndCallback}
+            onMouseEnter={handleMouseEnter}
+            onKeyPress={keyPressHandler}
+          >
+            Content
+          </div>
+        );
+      }
+    `,
+      },
+      {
+        actual: 'keyPressHandler',
+        context: 'internal',
+        expected: 'handleKeyPress',
+        suggestionOutput: `
+      function Component() {
+        const dragEndCallback = () => {};
+        const mouseEnterFn = () => {};
+        const handleKeyPress = () => {};
+        
+        return (
+          <div 
+            onDragEnd={dragEndCallback}
+            onMouseEnter={mouseEnterFn}
+            onKeyPress={handleKeyPress}
+          >
+            Content
+          </div>
+        );
+      }
+    `,
+      },
     ]
   ),
 ];
@@ -200,9 +415,63 @@ const eventParameterPatternCases = [
       }
     `,
     [
-      { actual: 'clickFn', context: 'internal', expected: 'handleClick' },
-      { actual: 'submitCallback', context: 'internal', expected: 'handleSubmit' },
-      { actual: 'changeHandler', context: 'internal', expected: 'handleChange' },
+      {
+        actual: 'clickFn',
+        context: 'internal',
+        expected: 'handleClick',
+        suggestionOutput: `
+      function Component() {
+        const handleClick = (event) => {};
+        const submitCallback = (e) => {};
+        const changeHandler = (evt) => {};
+        
+        return (
+          <form onSubmit={submitCallback}>
+            <input onChange={changeHandler} />
+            <button onClick={handleClick}>Submit</button>
+          </form>
+        );
+      }
+    `,
+      },
+      {
+        actual: 'submitCallback',
+        context: 'internal',
+        expected: 'handleSubmit',
+        suggestionOutput: `
+      function Component() {
+        const clickFn = (event) => {};
+        const handleSubmit = (e) => {};
+        const changeHandler = (evt) => {};
+        
+        return (
+          <form onSubmit={handleSubmit}>
+            <input onChange={changeHandler} />
+            <button onClick={clickFn}>Submit</button>
+          </form>
+        );
+      }
+    `,
+      },
+      {
+        actual: 'changeHandler',
+        context: 'internal',
+        expected: 'handleChange',
+        suggestionOutput: `
+      function Component() {
+        const clickFn = (event) => {};
+        const submitCallback = (e) => {};
+        const handleChange = (evt) => {};
+        
+        return (
+          <form onSubmit={submitCallback}>
+            <input onChange={handleChange} />
+            <button onClick={clickFn}>Submit</button>
+          </form>
+        );
+      }
+    `,
+      },
     ]
   ),
 ];
@@ -225,13 +494,172 @@ const mixedFunctionTypeCases = [
       }
     `,
     [
-      { actual: 'clickCallback', context: 'internal', expected: 'handleClick' },
-      { actual: 'submitHandler', context: 'internal', expected: 'handleSubmit' },
-      { actual: 'onBlur', context: 'internal', expected: 'handleBlur' },
+      {
+        actual: 'clickCallback',
+        context: 'internal',
+        expected: 'handleClick',
+        suggestionOutput: `
+      function Component() {
+        const handleClick = () => {};
+        function submitHandler(e) {}
+        const onBlur = useCallback(() => {}, []);
+        
+        return (
+          <form onSubmit={submitHandler}>
+            <input onBlur={onBlur} />
+            <button onClick={handleClick}>Submit</button>
+          </form>
+        );
+      }
+    `,
+      },
+      {
+        actual: 'submitHandler',
+        context: 'internal',
+        expected: 'handleSubmit',
+        suggestionOutput: `
+      function Component() {
+        const clickCallback = () => {};
+        function handleSubmit(e) {}
+        const onBlur = useCallback(() => {}, []);
+        
+        return (
+          <form onSubmit={handleSubmit}>
+            <input onBlur={onBlur} />
+            <button onClick={clickCallback}>Submit</button>
+          </form>
+        );
+      }
+    `,
+      },
+      {
+        actual: 'onBlur',
+        context: 'internal',
+        expected: 'handleBlur',
+        suggestionOutput: `
+      function Component() {
+        const clickCallback = () => {};
+        function submitHandler(e) {}
+        const handleBlur = useCallback(() => {}, []);
+        
+        return (
+          <form onSubmit={submitHandler}>
+            <input onBlur={handleBlur} />
+            <button onClick={clickCallback}>Submit</button>
+          </form>
+        );
+      }
+    `,
+      },
     ]
   ),
 ];
 
+// Test cases for rename suggestions that update every JSX usage of the handler
+const renameSuggestionCases = [
+  createEventHandlerInvalidCase(
+    `
+      function Component() {
+        const onSave = useCallback(() => {}, []);
+        const actions = { onSave };
+        return <Toolbar onSave={onSave} actions={actions} />;
+      }
+    `,
+    [
+      {
+        actual: 'onSave',
+        context: 'internal',
+        expected: 'handleSave',
+        suggestionOutput: `
+      function Component() {
+        const handleSave = useCallback(() => {}, []);
+        const actions = { onSave: handleSave };
+        return <Toolbar onSave={handleSave} actions={actions} />;
+      }
+    `,
+      },
+    ]
+  ),
+];
+
+// Test cases where the expected name is already taken, so no rename is suggested
+const renameCollisionCases = [
+  createEventHandlerInvalidCase(
+    `
+      function Component({ handleClick }) {
+        const clickHandler = () => handleClick();
+        return <button onClick={clickHandler}>Click me</button>;
+      }
+    `,
+    [{ actual: 'clickHandler', context: 'internal', expected: 'handleClick', suggestionOutput: null }]
+  ),
+];
+
+// Test cases for custom internal and prop prefixes
+const customPrefixCases = [
+  createEventHandlerInvalidCase(
+    `
+      function Component() {
+        const handleClick = () => {};
+        return <button onClick={handleClick}>Click me</button>;
+      }
+    `,
+    [
+      {
+        actual: 'handleClick',
+        context: 'internal',
+        expected: 'onInternalClick',
+        suggestionOutput: `
+      function Component() {
+        const onInternalClick = () => {};
+        return <button onClick={onInternalClick}>Click me</button>;
+      }
+    `,
+      },
+    ],
+    { internalPrefix: 'onInternal' }
+  ),
+  createEventHandlerInvalidCase(
+    `
+      interface ButtonProps {
+        onClick: () => void;
+        pressHandler: () => void;
+      }
+    `,
+    [
+      { actual: 'onClick', context: 'prop', expected: 'whenClick' },
+      { actual: 'pressHandler', context: 'prop', expected: 'whenPress' },
+    ],
+    { propPrefix: 'when' }
+  ),
+];
+
+// Test cases for custom handler suffixes
+const customSuffixCases = [
+  createEventHandlerInvalidCase(
+    `
+      function Component() {
+        function saveListener() {}
+        return <div>Content</div>;
+      }
+    `,
+    [
+      {
+        actual: 'saveListener',
+        context: 'internal',
+        expected: 'handleSave',
+        suggestionOutput: `
+      function Component() {
+        function handleSave() {}
+        return <div>Content</div>;
+      }
+    `,
+      },
+    ],
+    { handlerSuffixes: ['Handler', 'Listener'] }
+  ),
+];
+
 // Test cases for internal event handlers with correct "handle" prefix
 const correctHandlePrefixCases = [
   createValidCase(`
@@ -316,6 +744,35 @@ const nonEventHandlerCases = [
   `),
 ];
 
+// Test cases for handlers that follow custom prefixes
+const correctCustomPrefixCases = [
+  {
+    code: `
+      interface ButtonProps {
+        onClick: () => void;
+      }
+      function Button({ onClick }: ButtonProps) {
+        const onInternalClick = () => onClick();
+        return <button onClick={onInternalClick}>Click me</button>;
+      }
+    `,
+    options: [{ internalPrefix: 'onInternal' }],
+  },
+];
+
+// Test cases for names that only match the default suffixes
+const customSuffixValidCases = [
+  {
+    code: `
+      function Component() {
+        function saveFn() {}
+        return <div>Content</div>;
+      }
+    `,
+    options: [{ handlerSuffixes: ['Listener'] }],
+  },
+];
+
 // Test cases for utility functions that should be ignored
 const utilityFunctionCases = [
   createValidCase(`
@@ -368,6 +825,39 @@ const complexCorrectNamingCases = [
   `),
 ];
 
+// Test cases for names skipped through the ignore option
+const IGNORE_OPTIONS = { ignore: ['clickHandler', '/^aria/'] };
+
+const ignoreOptionCases = {
+  invalid: [
+    createEventHandlerInvalidCase(
+      `
+      interface MenuProps {
+        clickHandler: () => void;
+        closeHandler: () => void;
+      }
+    `,
+      [{ actual: 'closeHandler', context: 'prop', expected: 'onClose' }],
+      IGNORE_OPTIONS
+    ),
+  ],
+  valid: [
+    {
+      code: `
+      interface MenuProps {
+        clickHandler: () => void;
+        ariaChanged: () => void;
+      }
+      function Menu() {
+        const clickHandler = () => {};
+        return <button onClick={clickHandler}>Menu</button>;
+      }
+    `,
+      options: [IGNORE_OPTIONS],
+    },
+  ],
+};
+
 const TEST_CASES = {
   invalid: [
     ...missingHandlePrefixCases,
@@ -380,6 +870,11 @@ const TEST_CASES = {
     ...nonStandardEventCases,
     ...eventParameterPatternCases,
     ...mixedFunctionTypeCases,
+    ...renameSuggestionCases,
+    ...renameCollisionCases,
+    ...customPrefixCases,
+    ...customSuffixCases,
+    ...ignoreOptionCases.invalid,
   ],
   valid: [
     ...correctHandlePrefixCases,
@@ -393,6 +888,9 @@ const TEST_CASES = {
     ...hookEventHandlerCases,
     ...inlineEventHandlerCases,
     ...complexCorrectNamingCases,
+    ...correctCustomPrefixCases,
+    ...customSuffixValidCases,
+    ...ignoreOptionCases.valid,
   ],
 };
 
@@ -282,6 +282,274 @@ const templateLiteralAndClassNameCases = [
   `),
 ];
 
+// Test cases for configurable thresholds
+const thresholdOptionCases = {
+  invalid: [
+    createComplexConditionInvalidCase(
+      `
+    return <div>{user && isAdmin && <AdminPanel />}</div>;
+  `,
+      1,
+      { maxLogicalOperators: 1 }
+    ),
+    createComplexConditionInvalidCase(
+      `
+    return <div>{isLoading ? <Spinner /> : hasError ? <Error /> : <Content />}</div>;
+  `,
+      1,
+      { maxTernaryDepth: 1 }
+    ),
+    createComplexConditionInvalidCase(
+      `
+    return <div>{a ? <A /> : b ? <B /> : c ? <C /> : <D />}</div>;
+  `,
+      1,
+      { maxTernaryDepth: 2 }
+    ),
+  ],
+  valid: [
+    {
+      code: `
+    return <div>{user && data && isReady && !isLoading && <Dashboard />}</div>;
+  `,
+      options: [{ maxLogicalOperators: 4 }],
+    },
+    createValidCase(`
+    return <div>{isLoading ? <Spinner /> : hasError ? <Error /> : <Content />}</div>;
+  `),
+    {
+      code: `
+    return <div>{isLoading ? <Spinner /> : hasError ? <Error /> : <Content />}</div>;
+  `,
+      options: [{ maxTernaryDepth: 2 }],
+    },
+  ],
+};
+
+// Test cases for template literal counting
+const templateLiteralOptionCases = {
+  invalid: [
+    createComplexConditionInvalidCase(`
+    return <div title={isActive && \`\${name} is active\`} />;
+  `),
+  ],
+  valid: [
+    {
+      code: `
+    return <div title={isActive && \`\${name} is active\`} />;
+  `,
+      options: [{ countTemplateLiterals: false }],
+    },
+  ],
+};
+
+// Test cases for configurable className helpers and attributes
+const classNameHelperOptionCases = {
+  invalid: [
+    createComplexConditionInvalidCase(`
+    return <Button className={classNames(isActive && isPrimary && !isDisabled && 'active')} />;
+  `),
+    createComplexConditionInvalidCase(`
+    return <Button className={styles.cx(isActive && isPrimary && !isDisabled && 'active')} />;
+  `),
+    createComplexConditionInvalidCase(`
+    return <Button tw={cn(isActive && isPrimary && !isDisabled && 'active')} />;
+  `),
+    createComplexConditionInvalidCase(
+      `
+    return <Button className={cn(isActive && isPrimary && !isDisabled && 'active')} />;
+  `,
+      1,
+      { classNameHelpers: ['clsx'] }
+    ),
+  ],
+  valid: [
+    {
+      code: `
+    return <Button className={classNames(isActive && isPrimary && !isDisabled && 'active')} />;
+  `,
+      options: [{ classNameHelpers: ['classNames'] }],
+    },
+    {
+      code: `
+    return <Button className={styles.cx(isActive && isPrimary && !isDisabled && 'active')} />;
+  `,
+      options: [{ classNameHelpers: ['styles.cx'] }],
+    },
+    {
+      code: `
+    return <Button tw={cn(isActive && isPrimary && !isDisabled && 'active')} />;
+  `,
+      options: [{ classNameAttributes: ['className', 'class', 'tw', 'classNames'] }],
+    },
+  ],
+};
+
+// Test cases for class name helpers configured through settings['react-snob']
+const classNameHelperSettingsCases = {
+  invalid: [
+    {
+      ...createComplexConditionInvalidCase(`
+    return <Button className={cn(isActive && isPrimary && !isDisabled && 'active')} />;
+  `),
+      settings: { 'react-snob': { classNameHelpers: ['twMerge'] } },
+    },
+  ],
+  valid: [
+    {
+      code: `
+    return <Button className={twMerge(isActive && isPrimary && !isDisabled && 'active')} />;
+  `,
+      settings: { 'react-snob': { classNameHelpers: ['twMerge'] } },
+    },
+    // The rule option takes precedence over the shared settings
+    {
+      code: `
+    return <Button className={cn(isActive && isPrimary && !isDisabled && 'active')} />;
+  `,
+      options: [{ classNameHelpers: ['cn'] }],
+      settings: { 'react-snob': { classNameHelpers: ['twMerge'] } },
+    },
+  ],
+};
+
+// Test cases for the extract-to-variable suggestion
+const extractSuggestionCases = [
+  {
+    code: `
+      function Dashboard({ user, data, isLoading }) {
+        return <div>{user && data && !isLoading && !user.isBanned && <AdminPanel />}</div>;
+      }
+    `,
+    errors: [
+      {
+        messageId: 'complexCondition' as const,
+        suggestions: [
+          {
+            data: { name: '_isAdminPanelVisible' },
+            messageId: 'extractCondition' as const,
+            output: `
+      function Dashboard({ user, data, isLoading }) {
+        const _isAdminPanelVisible = user && data && !isLoading && !user.isBanned;
+        return <div>{_isAdminPanelVisible && <AdminPanel />}</div>;
+      }
+    `,
+          },
+        ],
+      },
+    ],
+  },
+  {
+    code: `
+      const Status = ({ user, data, isLoading }) => {
+        if (!user) return null;
+        return (
+          <div>
+            {user && data && !isLoading ? <Success /> : <Loading />}
+          </div>
+        );
+      };
+    `,
+    errors: [
+      {
+        messageId: 'complexCondition' as const,
+        suggestions: [
+          {
+            data: { name: '_isSuccessVisible' },
+            messageId: 'extractCondition' as const,
+            output: `
+      const Status = ({ user, data, isLoading }) => {
+        if (!user) return null;
+        const _isSuccessVisible = user && data && !isLoading;
+        return (
+          <div>
+            {_isSuccessVisible ? <Success /> : <Loading />}
+          </div>
+        );
+      };
+    `,
+          },
+        ],
+      },
+    ],
+  },
+  {
+    code: `
+      function Form({ isValid, isSubmitting, errors }) {
+        return <Button disabled={!isValid || isSubmitting || errors.length > 0 || !isDirty} />;
+      }
+    `,
+    errors: [
+      {
+        messageId: 'complexCondition' as const,
+        suggestions: [
+          {
+            data: { name: '_isDisabled' },
+            messageId: 'extractCondition' as const,
+            output: `
+      function Form({ isValid, isSubmitting, errors }) {
+        const _isDisabled = !isValid || isSubmitting || errors.length > 0 || !isDirty;
+        return <Button disabled={_isDisabled} />;
+      }
+    `,
+          },
+        ],
+      },
+    ],
+  },
+  {
+    code: `
+      function Form({ isValid, isSubmitting, errors }) {
+        const _isDisabled = false;
+        return <Button disabled={!isValid || isSubmitting || errors.length > 0 || !isDirty} />;
+      }
+    `,
+    errors: [
+      {
+        messageId: 'complexCondition' as const,
+        suggestions: [
+          {
+            data: { name: '_isDisabled2' },
+            messageId: 'extractCondition' as const,
+            output: `
+      function Form({ isValid, isSubmitting, errors }) {
+        const _isDisabled = false;
+        const _isDisabled2 = !isValid || isSubmitting || errors.length > 0 || !isDirty;
+        return <Button disabled={_isDisabled2} />;
+      }
+    `,
+          },
+        ],
+      },
+    ],
+  },
+  // Conditions inside callbacks or other conditions are not hoisted
+  {
+    code: `
+      function List({ items }) {
+        return (
+          <ul>{items.map((item) => <li>{item.isVisible && item.isEnabled && !item.isHidden && <Item />}</li>)}</ul>
+        );
+      }
+    `,
+    errors: [{ messageId: 'complexCondition' as const, suggestions: [] }],
+  },
+  {
+    code: `
+      function Profile({ user }) {
+        return <div>{user ? <div>{user.profile && user.isActive && !user.isBanned && <Badge />}</div> : null}</div>;
+      }
+    `,
+    errors: [{ messageId: 'complexCondition' as const, suggestions: [] }],
+  },
+  {
+    code: `
+      const Banner = ({ user, data, isLoading }) => <div>{user && data && !isLoading && !error && <Content />}</div>;
+    `,
+    errors: [{ messageId: 'complexCondition' as const, suggestions: [] }],
+  },
+];
+
 const TEST_CASES = {
   invalid: [
     ...multipleAndConditionCases,
@@ -292,6 +560,11 @@ const TEST_CASES = {
     ...functionCallCases,
     ...multipleComplexConditionCases,
     ...fragmentAndSpecialSyntaxCases,
+    ...thresholdOptionCases.invalid,
+    ...templateLiteralOptionCases.invalid,
+    ...classNameHelperOptionCases.invalid,
+    ...extractSuggestionCases,
+    ...classNameHelperSettingsCases.invalid,
   ],
   valid: [
     ...simpleBooleanCases,
@@ -299,6 +572,10 @@ const TEST_CASES = {
     ...simpleTernaryAndComparisonCases,
     ...simpleBooleanPropCases,
     ...templateLiteralAndClassNameCases,
+    ...thresholdOptionCases.valid,
+    ...templateLiteralOptionCases.valid,
+    ...classNameHelperOptionCases.valid,
+    ...classNameHelperSettingsCases.valid,
   ],
 };
 
@@ -21,9 +21,113 @@ const noStyleAttributeCases = [
 // Test cases for non-style attributes
 const nonStyleAttributeCases = [createValidCase('<div data-style="something">Content</div>')];
 
+// Test cases for CSS custom properties
+const customPropertyCases = {
+  invalid: [
+    createNoInlineStylesInvalidCase('<div style={{ "--progress": progress }}>Content</div>'),
+    createNoInlineStylesInvalidCase('<div style={{ "--progress": progress, color: "red" }}>Content</div>', {
+      allowCustomProperties: true,
+    }),
+    createNoInlineStylesInvalidCase('<div style={{ "--progress": progress, ...styles }}>Content</div>', {
+      allowCustomProperties: true,
+    }),
+    createNoInlineStylesInvalidCase('<div style={{}}>Content</div>', { allowCustomProperties: true }),
+  ],
+  valid: [
+    {
+      code: '<div style={{ "--progress": `${progress}%` }}>Content</div>',
+      options: [{ allowCustomProperties: true }],
+    },
+    {
+      code: '<div style={{ "--accent": "red", "--size": 4 }}>Content</div>',
+      options: [{ allowCustomProperties: true }],
+    },
+  ],
+};
+
+// Test cases for values computed at runtime
+const dynamicValueCases = {
+  invalid: [
+    createNoInlineStylesInvalidCase('<div style={{ top: y, left: x }}>Content</div>'),
+    createNoInlineStylesInvalidCase('<div style={{ top: y, position: "absolute" }}>Content</div>', {
+      allowDynamicValues: true,
+    }),
+    createNoInlineStylesInvalidCase('<div style={{ width: `100px` }}>Content</div>', { allowDynamicValues: true }),
+    createNoInlineStylesInvalidCase('<div style={{ marginTop: -8 }}>Content</div>', { allowDynamicValues: true }),
+    createNoInlineStylesInvalidCase('<div style={buttonStyles}>Content</div>', { allowDynamicValues: true }),
+  ],
+  valid: [
+    {
+      code: '<div style={{ top: y, left: x }}>Content</div>',
+      options: [{ allowDynamicValues: true }],
+    },
+    {
+      code: '<div style={{ width: `${width}px`, transform: getTransform(angle) }}>Content</div>',
+      options: [{ allowDynamicValues: true }],
+    },
+    {
+      code: '<div style={{ "--accent": "red", top: y }}>Content</div>',
+      options: [{ allowCustomProperties: true, allowDynamicValues: true }],
+    },
+  ],
+};
+
+// Test cases for allowed elements
+const allowedElementCases = {
+  invalid: [
+    createNoInlineStylesInvalidCase('<motion.span style={{ opacity: 0 }}>Content</motion.span>', {
+      allowedElements: ['motion.div'],
+    }),
+  ],
+  valid: [
+    {
+      code: '<motion.div style={{ opacity: 0 }}>Content</motion.div>',
+      options: [{ allowedElements: ['motion.div'] }],
+    },
+    {
+      code: '<Box style={{ padding: 8 }} />',
+      options: [{ allowedElements: ['Box'] }],
+    },
+  ],
+};
+
+// Test cases for other style-like attributes
+const attributeCases = {
+  invalid: [
+    createNoInlineStylesInvalidCase('<Box sx={{ padding: 2 }}>Content</Box>', { attributes: ['style', 'sx'] }),
+    createNoInlineStylesInvalidCase('<div css={{ color: "red" }}>Content</div>', { attributes: ['css'] }),
+    createNoInlineStylesInvalidCase('<View styles={containerStyles} />', { attributes: ['styles'] }),
+  ],
+  valid: [
+    createValidCase('<Box sx={{ padding: 2 }}>Content</Box>'),
+    {
+      code: '<div style={{ color: "red" }}>Content</div>',
+      options: [{ attributes: ['sx'] }],
+    },
+    {
+      code: '<Box sx={{ padding: 2 }}>Content</Box>',
+      options: [{ allowedElements: ['Box'], attributes: ['sx'] }],
+    },
+  ],
+};
+
 const TEST_CASES = {
-  invalid: [...inlineStyleObjectCases, ...styleVariableCases],
-  valid: [...noStyleAttributeCases, ...nonStyleAttributeCases],
+  invalid: [
+    ...inlineStyleObjectCases,
+    ...styleVariableCases,
+    ...customPropertyCases.invalid,
+    ...dynamicValueCases.invalid,
+    ...allowedElementCases.invalid,
+    ...attributeCases.invalid,
+  ],
+  valid: [
+    ...noStyleAttributeCases,
+    ...nonStyleAttributeCases,
+    ...customPropertyCases.valid,
+    ...dynamicValueCases.valid,
+    ...allowedElementCases.valid,
+    ...attributeCases.valid,
+  ],
 };
 
 const ruleTester = new RuleTester(PARSER_CONFIG);
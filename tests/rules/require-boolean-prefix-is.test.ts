@@ -1,26 +1,46 @@
 import { RuleTester } from '@typescript-eslint/rule-tester';
 
-import { requireBooleanPrefixIs } from '../../src/rules/require-boolean-prefix-is';
-import { PARSER_CONFIG } from '../../src/utils/test-utils';
+import { BooleanContext, requireBooleanPrefixIs } from '../../src/rules/require-boolean-prefix-is';
+import { PARSER_CONFIG, TYPED_PARSER_CONFIG } from '../../src/utils/test-utils';
 
 // Helper function to create invalid test cases for require-boolean-prefix-is rule
 function createBooleanPrefixInvalidCase(
   code: string,
   name: string,
+  context: string,
   prefixes: string,
   suggested: string,
-  options?: { allowedPrefixes: string[] }
+  options?: {
+    allowedPrefixes: string[];
+    assumePrefixedHooksReturnBoolean?: boolean;
+    booleanHookReturns?: Record<string, boolean | string[]>;
+    checkPredicateFunctions?: boolean;
+    contextPrefixes?: Partial<Record<BooleanContext, string[]>>;
+    ignore?: string[];
+    useTypeInformation?: boolean;
+  },
+  suggestionOutput?: string
 ) {
   return {
     code,
     errors: [
       {
         data: {
+          context,
           name,
           prefixes,
           suggested,
         },
         messageId: 'booleanShouldStartWithPrefix' as const,
+        ...(suggestionOutput !== undefined && {
+          suggestions: [
+            {
+              data: { name, suggested },
+              messageId: 'renameBooleanIdentifier' as const,
+              output: suggestionOutput,
+            },
+          ],
+        }),
       },
     ],
     ...(options && { options: [options] }),
@@ -28,7 +48,17 @@ function createBooleanPrefixInvalidCase(
 }
 
 // Helper function to create valid test cases
-function createValidCase(code: string, options?: { allowedPrefixes: string[] }) {
+function createValidCase(
+  code: string,
+  options?: {
+    allowedPrefixes: string[];
+    booleanHookReturns?: Record<string, boolean | string[]>;
+    checkPredicateFunctions?: boolean;
+    contextPrefixes?: Partial<Record<BooleanContext, string[]>>;
+    ignore?: string[];
+    useTypeInformation?: boolean;
+  }
+) {
   return {
     code,
     ...(options && { options: [options] }),
@@ -37,44 +67,102 @@ function createValidCase(code: string, options?: { allowedPrefixes: string[] })
 
 // Test cases for basic boolean variables with default "is" prefix
 const basicBooleanVariableCases = [
-  createBooleanPrefixInvalidCase('const visible = true;', 'visible', '"is"', 'isVisible'),
-  createBooleanPrefixInvalidCase('let disabled = false;', 'disabled', '"is"', 'isDisabled'),
-  createBooleanPrefixInvalidCase('var loading = true;', 'loading', '"is"', 'isLoading'),
+  createBooleanPrefixInvalidCase(
+    'const visible = true;',
+    'visible',
+    'constant',
+    '"is"',
+    'isVisible',
+    undefined,
+    'const isVisible = true;'
+  ),
+  createBooleanPrefixInvalidCase(
+    'let disabled = false;',
+    'disabled',
+    'local variable',
+    '"is"',
+    'isDisabled',
+    undefined,
+    'let isDisabled = false;'
+  ),
+  createBooleanPrefixInvalidCase(
+    'var loading = true;',
+    'loading',
+    'local variable',
+    '"is"',
+    'isLoading',
+    undefined,
+    'var isLoading = true;'
+  ),
 ];
 
 // Test cases for custom single prefix configuration
 const customSinglePrefixCases = [
-  createBooleanPrefixInvalidCase('const visible = true;', 'visible', '"has"', 'hasVisible', {
-    allowedPrefixes: ['has'],
-  }),
+  createBooleanPrefixInvalidCase(
+    'const visible = true;',
+    'visible',
+    'constant',
+    '"has"',
+    'hasVisible',
+    { allowedPrefixes: ['has'] },
+    'const hasVisible = true;'
+  ),
 ];
 
 // Test cases for custom multiple prefixes configuration
 const customMultiplePrefixesCases = [
-  createBooleanPrefixInvalidCase('const enabled = true;', 'enabled', '"is", "has", or "should"', 'isEnabled', {
-    allowedPrefixes: ['is', 'has', 'should'],
-  }),
-  createBooleanPrefixInvalidCase('const VISIBLE = true;', 'VISIBLE', '"can", or "should"', 'CAN_VISIBLE', {
-    allowedPrefixes: ['can', 'should'],
-  }),
+  createBooleanPrefixInvalidCase(
+    'const enabled = true;',
+    'enabled',
+    'constant',
+    '"is", "has", or "should"',
+    'isEnabled',
+    { allowedPrefixes: ['is', 'has', 'should'] },
+    'const isEnabled = true;'
+  ),
+  createBooleanPrefixInvalidCase(
+    'const VISIBLE = true;',
+    'VISIBLE',
+    'constant',
+    '"can", or "should"',
+    'CAN_VISIBLE',
+    { allowedPrefixes: ['can', 'should'] },
+    'const CAN_VISIBLE = true;'
+  ),
 ];
 
 // Test cases for underscore-prefixed variables
 const underscorePrefixedVariableCases = [
-  createBooleanPrefixInvalidCase('const _enabled = true;', '_enabled', '"has"', '_hasEnabled', {
-    allowedPrefixes: ['has'],
-  }),
+  createBooleanPrefixInvalidCase(
+    'const _enabled = true;',
+    '_enabled',
+    'constant',
+    '"has"',
+    '_hasEnabled',
+    { allowedPrefixes: ['has'] },
+    'const _hasEnabled = true;'
+  ),
 ];
 
 // Test cases for React useState hooks
 const reactUseStateCases = [
-  createBooleanPrefixInvalidCase('const [open, setOpen] = useState(false);', 'open', '"is"', 'isOpen'),
+  createBooleanPrefixInvalidCase(
+    'const [open, setOpen] = useState(false);',
+    'open',
+    'state value',
+    '"is"',
+    'isOpen',
+    undefined,
+    'const [isOpen, setOpen] = useState(false);'
+  ),
   createBooleanPrefixInvalidCase(
     'const [visible, setVisible] = useState(true);',
     'visible',
+    'state value',
     '"can", or "should"',
     'canVisible',
-    { allowedPrefixes: ['can', 'should'] }
+    { allowedPrefixes: ['can', 'should'] },
+    'const [canVisible, setVisible] = useState(true);'
   ),
 ];
 
@@ -91,6 +179,7 @@ const interfacePropertyCases = [
     errors: [
       {
         data: {
+          context: 'interface member',
           name: 'disabled',
           prefixes: '"is"',
           suggested: 'isDisabled',
@@ -99,6 +188,7 @@ const interfacePropertyCases = [
       },
       {
         data: {
+          context: 'interface member',
           name: 'visible',
           prefixes: '"is"',
           suggested: 'isVisible',
@@ -117,6 +207,7 @@ const interfacePropertyCases = [
     errors: [
       {
         data: {
+          context: 'interface member',
           name: 'active',
           prefixes: '"was", or "will"',
           suggested: 'wasActive',
@@ -125,6 +216,7 @@ const interfacePropertyCases = [
       },
       {
         data: {
+          context: 'interface member',
           name: 'enabled',
           prefixes: '"was", or "will"',
           suggested: 'wasEnabled',
@@ -148,6 +240,7 @@ const objectConstantCases = [
     errors: [
       {
         data: {
+          context: 'object property',
           name: 'ENABLED',
           prefixes: '"should"',
           suggested: 'SHOULD_ENABLED',
@@ -156,6 +249,7 @@ const objectConstantCases = [
       },
       {
         data: {
+          context: 'object property',
           name: 'VISIBLE',
           prefixes: '"should"',
           suggested: 'SHOULD_VISIBLE',
@@ -402,8 +496,15 @@ const componentParameterCases = [
       }
     `,
     'visible',
+    'component parameter',
     '"is"',
-    'isVisible'
+    'isVisible',
+    undefined,
+    `
+      function MyComponent({ visible: isVisible }: { visible: boolean }) {
+        return <div>{isVisible}</div>;
+      }
+    `
   ),
   createBooleanPrefixInvalidCase(
     `
@@ -412,9 +513,15 @@ const componentParameterCases = [
       };
     `,
     'disabled',
+    'component parameter',
     '"can"',
     'canDisabled',
-    { allowedPrefixes: ['can'] }
+    { allowedPrefixes: ['can'] },
+    `
+      const MyComponent = ({ disabled: canDisabled }: { disabled: boolean }) => {
+        return <div>{canDisabled}</div>;
+      };
+    `
   ),
   createBooleanPrefixInvalidCase(
     `
@@ -423,9 +530,15 @@ const componentParameterCases = [
       }
     `,
     'enabled',
+    'component parameter',
     '"should"',
     'shouldEnabled',
-    { allowedPrefixes: ['should'] }
+    { allowedPrefixes: ['should'] },
+    `
+      function useMyHook({ enabled: shouldEnabled }: { enabled: boolean }) {
+        return shouldEnabled;
+      }
+    `
   ),
 ];
 
@@ -468,6 +581,525 @@ const complexExpressionCases = [
   ),
 ];
 
+// Test cases for rename suggestions that update every reference of the binding
+const renameSuggestionCases = [
+  createBooleanPrefixInvalidCase(
+    `
+      function Toggle() {
+        const [open, setOpen] = useState(false);
+        const state = { open };
+        return <Panel open={open} state={state} onClick={() => setOpen(!open)} />;
+      }
+    `,
+    'open',
+    'state value',
+    '"is"',
+    'isOpen',
+    undefined,
+    `
+      function Toggle() {
+        const [isOpen, setOpen] = useState(false);
+        const state = { open: isOpen };
+        return <Panel open={isOpen} state={state} onClick={() => setOpen(!isOpen)} />;
+      }
+    `
+  ),
+  createBooleanPrefixInvalidCase(
+    `
+      const visible: boolean = true;
+      export { visible };
+    `,
+    'visible',
+    'constant',
+    '"is"',
+    'isVisible',
+    undefined,
+    `
+      const isVisible: boolean = true;
+      export { isVisible as visible };
+    `
+  ),
+  // Exported declarations are not renamed, since that would change the module's exports
+  {
+    code: 'export const visible = true;',
+    errors: [
+      {
+        data: { context: 'constant', name: 'visible', prefixes: '"is"', suggested: 'isVisible' },
+        messageId: 'booleanShouldStartWithPrefix' as const,
+        suggestions: [],
+      },
+    ],
+  },
+  createBooleanPrefixInvalidCase(
+    `
+      function Modal({ closable = true }) {
+        return <div>{closable && <CloseButton />}</div>;
+      }
+    `,
+    'closable',
+    'component parameter',
+    '"is"',
+    'isClosable',
+    undefined,
+    `
+      function Modal({ closable: isClosable = true }) {
+        return <div>{isClosable && <CloseButton />}</div>;
+      }
+    `
+  ),
+];
+
+// Test cases where renaming would collide with or shadow an existing binding, so no suggestion is offered
+const renameCollisionCases = [
+  {
+    code: `
+      const isVisible = getVisibility();
+      const visible = true;
+    `,
+    errors: [
+      {
+        data: { context: 'constant', name: 'visible', prefixes: '"is"', suggested: 'isVisible' },
+        messageId: 'booleanShouldStartWithPrefix' as const,
+        suggestions: [],
+      },
+    ],
+  },
+  {
+    code: `
+      const isOpen = getInitialState();
+      function Dialog() {
+        const [open, setOpen] = useState(false);
+        return <div>{open && isOpen}</div>;
+      }
+    `,
+    errors: [
+      {
+        data: { context: 'state value', name: 'open', prefixes: '"is"', suggested: 'isOpen' },
+        messageId: 'booleanShouldStartWithPrefix' as const,
+        suggestions: [],
+      },
+    ],
+  },
+  {
+    code: `
+      function Dialog() {
+        const active = true;
+        return <div>{active && isActive}</div>;
+      }
+    `,
+    errors: [
+      {
+        data: { context: 'local variable', name: 'active', prefixes: '"is"', suggested: 'isActive' },
+        messageId: 'booleanShouldStartWithPrefix' as const,
+        suggestions: [],
+      },
+    ],
+  },
+];
+
+// Test cases for component detection beyond naming
+const componentDetectionCases = {
+  invalid: [
+    createBooleanPrefixInvalidCase(
+      `
+      export default function ({ visible }: { visible: boolean }) {
+        return <div>{visible}</div>;
+      }
+    `,
+      'visible',
+      'component parameter',
+      '"is"',
+      'isVisible',
+      undefined,
+      `
+      export default function ({ visible: isVisible }: { visible: boolean }) {
+        return <div>{isVisible}</div>;
+      }
+    `
+    ),
+  ],
+  valid: [
+    // PascalCase functions that neither render JSX nor call hooks are not components
+    createValidCase(`
+      function Formatter({ visible }: { visible: boolean }) {
+        return visible ? 'yes' : 'no';
+      }
+    `),
+  ],
+};
+
+// Test cases for state hooks and component wrappers configured through settings['react-snob']
+const pluginSettingsCases = {
+  invalid: [
+    createBooleanPrefixInvalidCase(
+      'const [open, setOpen] = React.useState(false);',
+      'open',
+      'state value',
+      '"is"',
+      'isOpen',
+      undefined,
+      'const [isOpen, setOpen] = React.useState(false);'
+    ),
+    {
+      ...createBooleanPrefixInvalidCase(
+        'const [open, setOpen] = useToggleState(false);',
+        'open',
+        'state value',
+        '"is"',
+        'isOpen',
+        undefined,
+        'const [isOpen, setOpen] = useToggleState(false);'
+      ),
+      settings: { 'react-snob': { stateHooks: ['useState', 'useToggleState'] } },
+    },
+    {
+      ...createBooleanPrefixInvalidCase(
+        `
+      const TodoItem = observer(({ done }: { done: boolean }) => {
+        return <li>{done}</li>;
+      });
+    `,
+        'done',
+        'component parameter',
+        '"is"',
+        'isDone',
+        undefined,
+        `
+      const TodoItem = observer(({ done: isDone }: { done: boolean }) => {
+        return <li>{isDone}</li>;
+      });
+    `
+      ),
+      settings: { 'react-snob': { componentWrappers: ['observer'] } },
+    },
+  ],
+  valid: [
+    createValidCase('const [open, setOpen] = useToggleState(false);'),
+    {
+      code: 'const [open, setOpen] = useState(false);',
+      settings: { 'react-snob': { stateHooks: ['useToggleState'] } },
+    },
+    createValidCase(`
+      const TodoItem = observer(({ done }: { done: boolean }) => {
+        return <li>{done}</li>;
+      });
+    `),
+  ],
+};
+
+// Test cases for values returned by hooks
+const hookReturnCases = {
+  invalid: [
+    createBooleanPrefixInvalidCase(
+      'const mobile = useIsMobile();',
+      'mobile',
+      'constant',
+      '"is"',
+      'isMobile',
+      { allowedPrefixes: ['is'], assumePrefixedHooksReturnBoolean: true },
+      'const isMobile = useIsMobile();'
+    ),
+    createBooleanPrefixInvalidCase(
+      'const online = useOnlineStatus();',
+      'online',
+      'constant',
+      '"is"',
+      'isOnline',
+      { allowedPrefixes: ['is'], booleanHookReturns: { useOnlineStatus: true } },
+      'const isOnline = useOnlineStatus();'
+    ),
+    createBooleanPrefixInvalidCase(
+      'const { loading, data } = useQuery(TODOS);',
+      'loading',
+      'constant',
+      '"is"',
+      'isLoading',
+      { allowedPrefixes: ['is'], booleanHookReturns: { useQuery: ['loading', 'called'] } },
+      'const { loading: isLoading, data } = useQuery(TODOS);'
+    ),
+    createBooleanPrefixInvalidCase(
+      'const { called: done } = Apollo.useQuery(TODOS);',
+      'done',
+      'constant',
+      '"is"',
+      'isDone',
+      { allowedPrefixes: ['is'], booleanHookReturns: { 'Apollo.useQuery': ['called'] } },
+      'const { called: isDone } = Apollo.useQuery(TODOS);'
+    ),
+  ],
+  valid: [
+    createValidCase('const { loading, data } = useQuery(TODOS);'),
+    createValidCase('const { loading: isLoading } = useQuery(TODOS);', {
+      allowedPrefixes: ['is'],
+      booleanHookReturns: { useQuery: ['loading'] },
+    }),
+    createValidCase('const { loading } = fetchTodos();', {
+      allowedPrefixes: ['is'],
+      booleanHookReturns: { useQuery: ['loading'] },
+    }),
+    // Hook names only imply a boolean return value when enabled
+    createValidCase('const mobile = useIsMobile();'),
+    createValidCase('const mobile = useIsMobile();', {
+      allowedPrefixes: ['is'],
+      assumePrefixedHooksReturnBoolean: true,
+      booleanHookReturns: { useIsMobile: false },
+    }),
+  ],
+};
+
+// Test cases for predicate functions returning a boolean or a type guard
+const PREDICATE_OPTIONS = { allowedPrefixes: ['is'], checkPredicateFunctions: true };
+
+const predicateFunctionCases = {
+  invalid: [
+    createBooleanPrefixInvalidCase(
+      "function validEmail(value: string): value is Email { return value.includes('@'); }",
+      'validEmail',
+      'predicate function',
+      '"is"',
+      'isValidEmail',
+      PREDICATE_OPTIONS,
+      "function isValidEmail(value: string): value is Email { return value.includes('@'); }"
+    ),
+    createBooleanPrefixInvalidCase(
+      "const checkAdmin = (user: User): boolean => user.role === 'admin';",
+      'checkAdmin',
+      'predicate function',
+      '"is"',
+      'isAdmin',
+      PREDICATE_OPTIONS,
+      "const isAdmin = (user: User): boolean => user.role === 'admin';"
+    ),
+    createBooleanPrefixInvalidCase(
+      'function validateEmail(value: string): boolean { return EMAIL.test(value); }\nvalidateEmail(input);',
+      'validateEmail',
+      'predicate function',
+      '"is"',
+      'isValidEmail',
+      PREDICATE_OPTIONS,
+      'function isValidEmail(value: string): boolean { return EMAIL.test(value); }\nisValidEmail(input);'
+    ),
+    createBooleanPrefixInvalidCase(
+      'function checkAccess(user: User): boolean { return user.roles.length > 0; }',
+      'checkAccess',
+      'predicate function',
+      '"is", or "has"',
+      'isAccess',
+      { allowedPrefixes: ['is', 'has'], checkPredicateFunctions: true },
+      'function isAccess(user: User): boolean { return user.roles.length > 0; }'
+    ),
+    // Methods and object keys are part of a contract, so they are reported without a rename suggestion
+    createBooleanPrefixInvalidCase(
+      'class Form { dirty(): boolean { return this.changes > 0; } }',
+      'dirty',
+      'predicate function',
+      '"is"',
+      'isDirty',
+      PREDICATE_OPTIONS
+    ),
+    createBooleanPrefixInvalidCase(
+      'class Form { touched = (): boolean => this.visits > 0; }',
+      'touched',
+      'predicate function',
+      '"is"',
+      'isTouched',
+      PREDICATE_OPTIONS
+    ),
+    createBooleanPrefixInvalidCase(
+      'const rules = { required(value: string): boolean { return value.length > 0; } };',
+      'required',
+      'predicate function',
+      '"is"',
+      'isRequired',
+      PREDICATE_OPTIONS
+    ),
+  ],
+  valid: [
+    createValidCase("function validEmail(value: string): value is Email { return value.includes('@'); }"),
+    createValidCase(
+      "function isValidEmail(value: string): value is Email { return value.includes('@'); }",
+      PREDICATE_OPTIONS
+    ),
+    createValidCase('function useIsMobile(): boolean { return useMediaQuery(MOBILE); }', PREDICATE_OPTIONS),
+    createValidCase(
+      'function assertEmail(value: unknown): asserts value is Email { if (!value) throw new Error(); }',
+      PREDICATE_OPTIONS
+    ),
+    createValidCase('const count = (items: Item[]): number => items.length;', PREDICATE_OPTIONS),
+  ],
+};
+
+// Test cases for prefix lists configured per context, with the global list as fallback
+const CONTEXT_PREFIX_OPTIONS = {
+  allowedPrefixes: ['is', 'has', 'can', 'should'],
+  contextPrefixes: { classProperty: ['is'], constant: ['is'] },
+};
+
+// Component parameters and local variables with separate prefix lists
+const LOCAL_DESTRUCTURING_OPTIONS = {
+  allowedPrefixes: ['is'],
+  contextPrefixes: { componentParameter: ['show'], localVariable: ['is'] },
+};
+
+const contextPrefixCases = {
+  invalid: [
+    createBooleanPrefixInvalidCase(
+      'const hasBeta = true;',
+      'hasBeta',
+      'constant',
+      '"is"',
+      'isHasBeta',
+      CONTEXT_PREFIX_OPTIONS,
+      'const isHasBeta = true;'
+    ),
+    createBooleanPrefixInvalidCase(
+      'class Store { canSync = false; }',
+      'canSync',
+      'class property',
+      '"is"',
+      'isCanSync',
+      CONTEXT_PREFIX_OPTIONS
+    ),
+    createBooleanPrefixInvalidCase(
+      'function Panel() { const [open, setOpen] = useState(false); }',
+      'open',
+      'state value',
+      '"has"',
+      'hasOpen',
+      { allowedPrefixes: ['is'], contextPrefixes: { stateValue: ['has'] } },
+      'function Panel() { const [hasOpen, setOpen] = useState(false); }'
+    ),
+    createBooleanPrefixInvalidCase(
+      'function Panel() { const open = true; }',
+      'open',
+      'local variable',
+      '"is", "has", "can", or "should"',
+      'isOpen',
+      CONTEXT_PREFIX_OPTIONS,
+      'function Panel() { const isOpen = true; }'
+    ),
+    // Variables destructured in a component body are local variables, not component parameters
+    createBooleanPrefixInvalidCase(
+      'function Panel(props: Props) { const { showTitle }: { showTitle: boolean } = props; return <h1 />; }',
+      'showTitle',
+      'local variable',
+      '"is"',
+      'isShowTitle',
+      LOCAL_DESTRUCTURING_OPTIONS,
+      'function Panel(props: Props) { const { showTitle: isShowTitle }: { showTitle: boolean } = props; return <h1 />; }'
+    ),
+    createBooleanPrefixInvalidCase(
+      'function Panel() { const { showLoading } = useQuery(); }',
+      'showLoading',
+      'local variable',
+      '"is"',
+      'isShowLoading',
+      { ...LOCAL_DESTRUCTURING_OPTIONS, booleanHookReturns: { useQuery: ['showLoading'] } },
+      'function Panel() { const { showLoading: isShowLoading } = useQuery(); }'
+    ),
+  ],
+  valid: [
+    createValidCase('export const isBeta = true;', CONTEXT_PREFIX_OPTIONS),
+    createValidCase('function Panel() { const [hasFocus, setHasFocus] = useState(false); }', CONTEXT_PREFIX_OPTIONS),
+    createValidCase('interface PanelProps { canClose: boolean; }', CONTEXT_PREFIX_OPTIONS),
+    createValidCase(
+      'function Panel({ shouldFocus }: { shouldFocus: boolean }) { return <div>{shouldFocus}</div>; }',
+      CONTEXT_PREFIX_OPTIONS
+    ),
+    createValidCase('const settings = { hasSound: true };', CONTEXT_PREFIX_OPTIONS),
+    createValidCase('class Store { isSynced = false; }', CONTEXT_PREFIX_OPTIONS),
+    createValidCase(
+      'function Panel(props: Props) { const { isOpen }: { isOpen: boolean } = props; return <h1 />; }',
+      LOCAL_DESTRUCTURING_OPTIONS
+    ),
+  ],
+};
+
+// Test cases for objects passed to or returned to state initialisers configured through settings['react-snob']
+const STORE_SETTINGS = { 'react-snob': { stateInitializers: ['atom', 'create', 'useReducer', 'useState'] } };
+
+const stateInitializerCases = {
+  invalid: [
+    createBooleanPrefixInvalidCase(
+      'function Form() { const [state, dispatch] = useReducer(reducer, { loading: false }); }',
+      'loading',
+      'state value',
+      '"is"',
+      'isLoading'
+    ),
+    createBooleanPrefixInvalidCase(
+      'function Form() { const [form, setForm] = useState({ open: false }); }',
+      'open',
+      'state value',
+      '"is"',
+      'isOpen'
+    ),
+    {
+      ...createBooleanPrefixInvalidCase(
+        'const useStore = create((set) => ({ visible: true, show: () => set({ visible: true }) }));',
+        'visible',
+        'state value',
+        '"is"',
+        'isVisible'
+      ),
+      settings: STORE_SETTINGS,
+    },
+    {
+      ...createBooleanPrefixInvalidCase(
+        'const useStore = create<State>()(() => { return { muted: true }; });',
+        'muted',
+        'state value',
+        '"is"',
+        'isMuted'
+      ),
+      settings: STORE_SETTINGS,
+    },
+    {
+      ...createBooleanPrefixInvalidCase(
+        'const darkMode = atom(false);',
+        'darkMode',
+        'state value',
+        '"is"',
+        'isDarkMode',
+        undefined,
+        'const isDarkMode = atom(false);'
+      ),
+      settings: STORE_SETTINGS,
+    },
+  ],
+  valid: [
+    createValidCase('function Form() { const [state, dispatch] = useReducer(reducer, { isLoading: false }); }'),
+    createValidCase('function Form() { const [form, setForm] = useState(() => parseForm({ strict: true })); }'),
+    createValidCase('const useStore = create(() => ({ visible: true }));'),
+    {
+      code: 'const useStore = create((set) => ({ isOpen: false, open: () => set({ visible: true }) }));',
+      settings: STORE_SETTINGS,
+    },
+    { code: 'const count = atom(0);', settings: STORE_SETTINGS },
+  ],
+};
+
+// Test cases for names skipped through the ignore option
+const IGNORE_OPTIONS = { allowedPrefixes: ['is'], ignore: ['enabled', '/^__/'] };
+
+const ignoreOptionCases = {
+  invalid: [
+    createBooleanPrefixInvalidCase(
+      'const visible = true;',
+      'visible',
+      'constant',
+      '"is"',
+      'isVisible',
+      IGNORE_OPTIONS,
+      'const isVisible = true;'
+    ),
+  ],
+  valid: [
+    createValidCase('interface FeatureDto { enabled: boolean; __deprecated: boolean; }', IGNORE_OPTIONS),
+    createValidCase('const settings = { enabled: true, __internal: false };', IGNORE_OPTIONS),
+  ],
+};
+
 const TEST_CASES = {
   invalid: [
     ...basicBooleanVariableCases,
@@ -478,6 +1110,15 @@ const TEST_CASES = {
     ...interfacePropertyCases,
     ...objectConstantCases,
     ...componentParameterCases,
+    ...renameSuggestionCases,
+    ...renameCollisionCases,
+    ...pluginSettingsCases.invalid,
+    ...componentDetectionCases.invalid,
+    ...hookReturnCases.invalid,
+    ...predicateFunctionCases.invalid,
+    ...contextPrefixCases.invalid,
+    ...stateInitializerCases.invalid,
+    ...ignoreOptionCases.invalid,
   ],
   valid: [
     ...correctDefaultPrefixCases,
@@ -498,9 +1139,230 @@ const TEST_CASES = {
     ...nullishCoalescingNonBooleanCases,
     ...jsxAndFunctionCallCases,
     ...nonReactFunctionParameterCases,
+    ...pluginSettingsCases.valid,
+    ...componentDetectionCases.valid,
+    ...hookReturnCases.valid,
+    ...predicateFunctionCases.valid,
+    ...contextPrefixCases.valid,
+    ...stateInitializerCases.valid,
+    ...ignoreOptionCases.valid,
   ],
 };
 
 const ruleTester = new RuleTester(PARSER_CONFIG);
 // @ts-expect-error ignore
 ruleTester.run('require-boolean-prefix-is', requireBooleanPrefixIs, TEST_CASES);
+
+// Test cases for values whose boolean type is only known to the TypeScript checker
+const typeAwareCases = [
+  createBooleanPrefixInvalidCase(
+    `
+      declare const items: { active: boolean }[];
+      const visible = items.some((item) => item.active);
+    `,
+    'visible',
+    'constant',
+    '"is"',
+    'isVisible',
+    { allowedPrefixes: ['is'], useTypeInformation: true },
+    `
+      declare const items: { active: boolean }[];
+      const isVisible = items.some((item) => item.active);
+    `
+  ),
+  createBooleanPrefixInvalidCase(
+    `
+      type Flag = boolean;
+      interface ButtonProps {
+        disabled: Flag;
+      }
+    `,
+    'disabled',
+    'interface member',
+    '"is"',
+    'isDisabled',
+    { allowedPrefixes: ['is'], useTypeInformation: true }
+  ),
+  {
+    code: `
+      type Flag = boolean | undefined;
+      interface CardProps {
+        open?: Flag;
+      }
+      function Card({ open }: CardProps) {
+        return <div>{String(open)}</div>;
+      }
+    `,
+    errors: [
+      {
+        data: { context: 'interface member', name: 'open', prefixes: '"is"', suggested: 'isOpen' },
+        messageId: 'booleanShouldStartWithPrefix' as const,
+      },
+      {
+        data: { context: 'component parameter', name: 'open', prefixes: '"is"', suggested: 'isOpen' },
+        messageId: 'booleanShouldStartWithPrefix' as const,
+        suggestions: [
+          {
+            data: { name: 'open', suggested: 'isOpen' },
+            messageId: 'renameBooleanIdentifier' as const,
+            output: `
+      type Flag = boolean | undefined;
+      interface CardProps {
+        open?: Flag;
+      }
+      function Card({ open: isOpen }: CardProps) {
+        return <div>{String(isOpen)}</div>;
+      }
+    `,
+          },
+        ],
+      },
+    ],
+    options: [{ allowedPrefixes: ['is'], useTypeInformation: true }],
+  },
+  {
+    code: `
+      declare function useToggle(): [boolean, () => void];
+      declare function useFetch(): { pending: boolean; data: string };
+      const [on, toggle] = useToggle();
+      const { pending, data } = useFetch();
+    `,
+    errors: [
+      {
+        data: { context: 'constant', name: 'on', prefixes: '"is"', suggested: 'isOn' },
+        messageId: 'booleanShouldStartWithPrefix' as const,
+        suggestions: [
+          {
+            data: { name: 'on', suggested: 'isOn' },
+            messageId: 'renameBooleanIdentifier' as const,
+            output: `
+      declare function useToggle(): [boolean, () => void];
+      declare function useFetch(): { pending: boolean; data: string };
+      const [isOn, toggle] = useToggle();
+      const { pending, data } = useFetch();
+    `,
+          },
+        ],
+      },
+      {
+        data: { context: 'constant', name: 'pending', prefixes: '"is"', suggested: 'isPending' },
+        messageId: 'booleanShouldStartWithPrefix' as const,
+        suggestions: [
+          {
+            data: { name: 'pending', suggested: 'isPending' },
+            messageId: 'renameBooleanIdentifier' as const,
+            output: `
+      declare function useToggle(): [boolean, () => void];
+      declare function useFetch(): { pending: boolean; data: string };
+      const [on, toggle] = useToggle();
+      const { pending: isPending, data } = useFetch();
+    `,
+          },
+        ],
+      },
+    ],
+    options: [{ allowedPrefixes: ['is'], useTypeInformation: true }],
+  },
+  // Hook return values destructured inside a component are reported once
+  {
+    code: `
+      declare function useQuery(): { loading: boolean };
+      function App() {
+        const { loading } = useQuery();
+        return <div>{String(loading)}</div>;
+      }
+    `,
+    errors: [
+      {
+        data: { context: 'local variable', name: 'loading', prefixes: '"is"', suggested: 'isLoading' },
+        messageId: 'booleanShouldStartWithPrefix' as const,
+        suggestions: [
+          {
+            data: { name: 'loading', suggested: 'isLoading' },
+            messageId: 'renameBooleanIdentifier' as const,
+            output: `
+      declare function useQuery(): { loading: boolean };
+      function App() {
+        const { loading: isLoading } = useQuery();
+        return <div>{String(isLoading)}</div>;
+      }
+    `,
+          },
+        ],
+      },
+    ],
+    options: [{ allowedPrefixes: ['is'], useTypeInformation: true }],
+  },
+  // Destructuring inside a component is reported once
+  createBooleanPrefixInvalidCase(
+    `
+      function App(props: { open: boolean }) {
+        const { open } = props;
+        return <div>{String(open)}</div>;
+      }
+    `,
+    'open',
+    'local variable',
+    '"is"',
+    'isOpen',
+    { allowedPrefixes: ['is'], useTypeInformation: true },
+    `
+      function App(props: { open: boolean }) {
+        const { open: isOpen } = props;
+        return <div>{String(isOpen)}</div>;
+      }
+    `
+  ),
+  // Without type information, inline annotations on the pattern are used
+  createBooleanPrefixInvalidCase(
+    `
+      function App(props: Record<string, unknown>) {
+        const { open }: { open: boolean } = props as { open: boolean };
+        return <div>{String(open)}</div>;
+      }
+    `,
+    'open',
+    'local variable',
+    '"is"',
+    'isOpen',
+    { allowedPrefixes: ['is'] },
+    `
+      function App(props: Record<string, unknown>) {
+        const { open: isOpen }: { open: boolean } = props as { open: boolean };
+        return <div>{String(isOpen)}</div>;
+      }
+    `
+  ),
+];
+
+// Test cases for type-aware mode that should not be flagged
+const typeAwareValidCases = [
+  createValidCase(
+    `
+      declare const items: { active: boolean }[];
+      const labels = items.map((item) => String(item.active));
+      const count = items.filter((item) => item.active).length;
+    `,
+    { allowedPrefixes: ['is'], useTypeInformation: true }
+  ),
+  createValidCase(
+    `
+      declare const items: { active: boolean }[];
+      const visible = items.some((item) => item.active);
+    `
+  ),
+  // The checker overrides the hook name when it resolves another return type
+  createValidCase(
+    `
+      declare function useIsFetching(): number;
+      const fetching = useIsFetching();
+    `,
+    { allowedPrefixes: ['is'], assumePrefixedHooksReturnBoolean: true, useTypeInformation: true }
+  ),
+];
+
+const typedRuleTester = new RuleTester(TYPED_PARSER_CONFIG);
+typedRuleTester.run('require-boolean-prefix-is (type-aware)', requireBooleanPrefixIs, {
+  invalid: typeAwareCases,
+  valid: typeAwareValidCases,
+});
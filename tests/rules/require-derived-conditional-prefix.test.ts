@@ -11,7 +11,11 @@ const basicLogicalExpressionCases = [
       return <div>{isSubmitReady && <button>Submit</button>}</div>;
     `,
     'isSubmitReady',
-    '_isSubmitReady'
+    '_isSubmitReady',
+    `
+      const _isSubmitReady = isValid && !isLoading;
+      return <div>{_isSubmitReady && <button>Submit</button>}</div>;
+    `
   ),
   createDerivedConditionalInvalidCase(
     `
@@ -19,7 +23,11 @@ const basicLogicalExpressionCases = [
       return <div>{hasError && <ErrorMessage />}</div>;
     `,
     'hasError',
-    '_hasError'
+    '_hasError',
+    `
+      const _hasError = error || validationError;
+      return <div>{_hasError && <ErrorMessage />}</div>;
+    `
   ),
   createDerivedConditionalInvalidCase(
     `
@@ -27,7 +35,11 @@ const basicLogicalExpressionCases = [
       return <div>{canEdit && <EditButton />}</div>;
     `,
     'canEdit',
-    '_canEdit'
+    '_canEdit',
+    `
+      const _canEdit = hasPermission && !isReadOnly;
+      return <div>{_canEdit && <EditButton />}</div>;
+    `
   ),
 ];
 
@@ -39,7 +51,11 @@ const complexLogicalExpressionCases = [
       return <Conditional condition={canProceed}><NextStep /></Conditional>;
     `,
     'canProceed',
-    '_canProceed'
+    '_canProceed',
+    `
+      const _canProceed = isAuthenticated && isVerified && !isBanned;
+      return <Conditional condition={_canProceed}><NextStep /></Conditional>;
+    `
   ),
   createDerivedConditionalInvalidCase(
     `
@@ -47,7 +63,11 @@ const complexLogicalExpressionCases = [
       return <div>{hasValidData ? <DataTable /> : <EmptyState />}</div>;
     `,
     'hasValidData',
-    '_hasValidData'
+    '_hasValidData',
+    `
+      const _hasValidData = data && data.length > 0 && !data.hasError;
+      return <div>{_hasValidData ? <DataTable /> : <EmptyState />}</div>;
+    `
   ),
 ];
 
@@ -59,7 +79,11 @@ const negationAndComparisonCases = [
       return <div>{hasNoResults ? <EmptyState /> : <ResultsList />}</div>;
     `,
     'hasNoResults',
-    '_hasNoResults'
+    '_hasNoResults',
+    `
+      const _hasNoResults = !results || results.length === 0;
+      return <div>{_hasNoResults ? <EmptyState /> : <ResultsList />}</div>;
+    `
   ),
   createDerivedConditionalInvalidCase(
     `
@@ -67,7 +91,11 @@ const negationAndComparisonCases = [
       return <div>{isCompleteProfile && <CompleteProfileBanner />}</div>;
     `,
     'isCompleteProfile',
-    '_isCompleteProfile'
+    '_isCompleteProfile',
+    `
+      const _isCompleteProfile = user.progress === 100;
+      return <div>{_isCompleteProfile && <CompleteProfileBanner />}</div>;
+    `
   ),
   createDerivedConditionalInvalidCase(
     `
@@ -75,7 +103,11 @@ const negationAndComparisonCases = [
       return isCompleteProfile ? <CompleteView /> : <IncompleteView />;
     `,
     'isCompleteProfile',
-    '_isCompleteProfile'
+    '_isCompleteProfile',
+    `
+      const _isCompleteProfile = !!user.name && !!user.email;
+      return _isCompleteProfile ? <CompleteView /> : <IncompleteView />;
+    `
   ),
 ];
 
@@ -96,16 +128,50 @@ const multipleVariableCases = [
       {
         data: {
           name: 'showWarning',
+          prefixes: '"_"',
           suggested: '_showWarning',
         },
         messageId: 'derivedConditionalShouldStartWithUnderscore' as const,
+        suggestions: [
+          {
+            data: { name: 'showWarning', suggested: '_showWarning' },
+            messageId: 'renameDerivedConditional' as const,
+            output: `
+      const _showWarning = isExpired || hasIssues;
+      const canSubmit = isValid && !isLoading;
+      return (
+        <div>
+          {_showWarning && <Warning />}
+          {canSubmit && <button>Submit</button>}
+        </div>
+      );
+    `,
+          },
+        ],
       },
       {
         data: {
           name: 'canSubmit',
+          prefixes: '"_"',
           suggested: '_canSubmit',
         },
         messageId: 'derivedConditionalShouldStartWithUnderscore' as const,
+        suggestions: [
+          {
+            data: { name: 'canSubmit', suggested: '_canSubmit' },
+            messageId: 'renameDerivedConditional' as const,
+            output: `
+      const showWarning = isExpired || hasIssues;
+      const _canSubmit = isValid && !isLoading;
+      return (
+        <div>
+          {showWarning && <Warning />}
+          {_canSubmit && <button>Submit</button>}
+        </div>
+      );
+    `,
+          },
+        ],
       },
     ],
   },
@@ -121,7 +187,13 @@ const componentTypeCases = [
       };
     `,
     'shouldRender',
-    '_shouldRender'
+    '_shouldRender',
+    `
+      const Component = () => {
+        const _shouldRender = isVisible && hasPermission;
+        return <div>{_shouldRender && <SecureContent />}</div>;
+      };
+    `
   ),
   createDerivedConditionalInvalidCase(
     `
@@ -131,7 +203,13 @@ const componentTypeCases = [
       }
     `,
     'readyToShow',
-    '_readyToShow'
+    '_readyToShow',
+    `
+      function Component() {
+        const _readyToShow = isLoaded && !isError && hasData;
+        return <div>{_readyToShow ? <Content /> : <Loading />}</div>;
+      }
+    `
   ),
   createDerivedConditionalInvalidCase(
     `
@@ -141,7 +219,13 @@ const componentTypeCases = [
       });
     `,
     'showError',
-    '_showError'
+    '_showError',
+    `
+      const Input = forwardRef(() => {
+        const _showError = hasError && !isLoading;
+        return <div>{_showError && <ErrorText />}</div>;
+      });
+    `
   ),
 ];
 
@@ -153,7 +237,11 @@ const jsxConditionalPatternCases = [
       return <div>{isReady ? <Content /> : <Placeholder />}</div>;
     `,
     'isReady',
-    '_isReady'
+    '_isReady',
+    `
+      const _isReady = isLoaded && !isLoading;
+      return <div>{_isReady ? <Content /> : <Placeholder />}</div>;
+    `
   ),
   createDerivedConditionalInvalidCase(
     `
@@ -161,7 +249,11 @@ const jsxConditionalPatternCases = [
       return <Conditional condition={isEligible}><DriveForm /></Conditional>;
     `,
     'isEligible',
-    '_isEligible'
+    '_isEligible',
+    `
+      const _isEligible = age >= 18 && hasLicense;
+      return <Conditional condition={_isEligible}><DriveForm /></Conditional>;
+    `
   ),
   createDerivedConditionalInvalidCase(
     `
@@ -179,7 +271,21 @@ const jsxConditionalPatternCases = [
       }
     `,
     'showModal',
-    '_showModal'
+    '_showModal',
+    `
+      function Component() {
+        const _showModal = isOpen && hasContent;
+        return (
+          <div>
+            {_showModal && (
+              <Modal>
+                <Content />
+              </Modal>
+            )}
+          </div>
+        );
+      }
+    `
   ),
 ];
 
@@ -191,7 +297,11 @@ const variableDeclarationTypeCases = [
       return <div>{isAvailable && <AddToCart />}</div>;
     `,
     'isAvailable',
-    '_isAvailable'
+    '_isAvailable',
+    `
+      let _isAvailable = inStock && !isReserved;
+      return <div>{_isAvailable && <AddToCart />}</div>;
+    `
   ),
   createDerivedConditionalInvalidCase(
     `
@@ -199,7 +309,11 @@ const variableDeclarationTypeCases = [
       return <div>{shouldDisplay ? <StatusIcon /> : null}</div>;
     `,
     'shouldDisplay',
-    '_shouldDisplay'
+    '_shouldDisplay',
+    `
+      var _shouldDisplay = isActive || isPending;
+      return <div>{_shouldDisplay ? <StatusIcon /> : null}</div>;
+    `
   ),
 ];
 
@@ -211,7 +325,11 @@ const booleanPrefixDerivedCases = [
       return <div>{isCompleteAndValid && <SuccessMessage />}</div>;
     `,
     'isCompleteAndValid',
-    '_isCompleteAndValid'
+    '_isCompleteAndValid',
+    `
+      const _isCompleteAndValid = isComplete && isValid;
+      return <div>{_isCompleteAndValid && <SuccessMessage />}</div>;
+    `
   ),
   createDerivedConditionalInvalidCase(
     `
@@ -219,7 +337,60 @@ const booleanPrefixDerivedCases = [
       return <div>{canProceedNow ? <ProceedButton /> : <BlockedMessage />}</div>;
     `,
     'canProceedNow',
-    '_canProceedNow'
+    '_canProceedNow',
+    `
+      const _canProceedNow = canProceed && !isBlocked;
+      return <div>{_canProceedNow ? <ProceedButton /> : <BlockedMessage />}</div>;
+    `
+  ),
+];
+
+// Test cases for rename suggestions that update references outside the JSX condition
+const renameSuggestionCases = [
+  createDerivedConditionalInvalidCase(
+    `
+      function Checkout() {
+        const canPay = hasCard && !isBlocked;
+        useEffect(() => track(canPay), [canPay]);
+        return <div>{canPay && <PayButton />}</div>;
+      }
+    `,
+    'canPay',
+    '_canPay',
+    `
+      function Checkout() {
+        const _canPay = hasCard && !isBlocked;
+        useEffect(() => track(_canPay), [_canPay]);
+        return <div>{_canPay && <PayButton />}</div>;
+      }
+    `
+  ),
+];
+
+// Test cases where an existing underscore-prefixed binding blocks the rename suggestion
+const renameCollisionCases = [
+  createDerivedConditionalInvalidCase(
+    `
+      function Checkout({ _canPay }) {
+        const canPay = hasCard && !isBlocked;
+        return <div>{canPay && <PayButton isPrimary={_canPay} />}</div>;
+      }
+    `,
+    'canPay',
+    '_canPay',
+    null
+  ),
+  createDerivedConditionalInvalidCase(
+    `
+      const _isReady = getReadyState();
+      function Status() {
+        const isReady = isLoaded && !isError;
+        return <div>{isReady ? <Content /> : <Loading />}</div>;
+      }
+    `,
+    'isReady',
+    '_isReady',
+    null
   ),
 ];
 
@@ -321,6 +492,126 @@ const nonBooleanAndInlineCases = [
   `),
 ];
 
+// Test cases for names skipped through the ignore option
+const IGNORE_OPTIONS = [{ ignore: ['showBanner', '/^gql/'] }];
+
+const ignoreOptionCases = {
+  invalid: [
+    {
+      ...createDerivedConditionalInvalidCase(
+        `
+      function Page() {
+        const showFooter = hasFooter && !isEmbedded;
+        return <div>{showFooter && <Footer />}</div>;
+      }
+    `,
+        'showFooter',
+        '_showFooter',
+        `
+      function Page() {
+        const _showFooter = hasFooter && !isEmbedded;
+        return <div>{_showFooter && <Footer />}</div>;
+      }
+    `
+      ),
+      options: IGNORE_OPTIONS,
+    },
+  ],
+  valid: [
+    {
+      code: `
+      function Page() {
+        const showBanner = hasBanner && !isEmbedded;
+        const gqlReady = data && !loading;
+        return <div>{showBanner && gqlReady && <Banner />}</div>;
+      }
+    `,
+      options: IGNORE_OPTIONS,
+    },
+  ],
+};
+
+// Test cases for custom derived prefixes, where the suggestion uses the first prefix
+const CUSTOM_PREFIX_OPTIONS = [{ allowedPrefixes: ['shouldShow', 'canRender', '_is'] }];
+
+const customPrefixCases = {
+  invalid: [
+    {
+      ...createDerivedConditionalInvalidCase(
+        `
+      function Page() {
+        const footer = hasFooter && !isEmbedded;
+        return <div>{footer && <Footer />}</div>;
+      }
+    `,
+        'footer',
+        'shouldShowFooter',
+        `
+      function Page() {
+        const shouldShowFooter = hasFooter && !isEmbedded;
+        return <div>{shouldShowFooter && <Footer />}</div>;
+      }
+    `,
+        '"shouldShow", "canRender", or "_is"'
+      ),
+      options: CUSTOM_PREFIX_OPTIONS,
+    },
+    {
+      ...createDerivedConditionalInvalidCase(
+        `
+      function Page() {
+        const _footerVisible = hasFooter && !isEmbedded;
+        return <div>{_footerVisible && <Footer />}</div>;
+      }
+    `,
+        '_footerVisible',
+        '_isFooterVisible',
+        `
+      function Page() {
+        const _isFooterVisible = hasFooter && !isEmbedded;
+        return <div>{_isFooterVisible && <Footer />}</div>;
+      }
+    `,
+        '"_is"'
+      ),
+      options: [{ allowedPrefixes: ['_is'] }],
+    },
+    {
+      ...createDerivedConditionalInvalidCase(
+        `
+      function Page() {
+        const shouldShowcase = hasItems && !isEmbedded;
+        return <div>{shouldShowcase && <Showcase />}</div>;
+      }
+    `,
+        'shouldShowcase',
+        'shouldShowShouldShowcase',
+        `
+      function Page() {
+        const shouldShowShouldShowcase = hasItems && !isEmbedded;
+        return <div>{shouldShowShouldShowcase && <Showcase />}</div>;
+      }
+    `,
+        '"shouldShow", "canRender", or "_is"'
+      ),
+      options: CUSTOM_PREFIX_OPTIONS,
+    },
+  ],
+  valid: [
+    {
+      code: `
+      function Page() {
+        const shouldShowFooter = hasFooter && !isEmbedded;
+        const canRenderChart = data.length > 0 && !isLoading;
+        const _isReady = isLoaded && !hasError;
+        return <div>{shouldShowFooter && canRenderChart && _isReady && <Footer />}</div>;
+      }
+    `,
+      options: CUSTOM_PREFIX_OPTIONS,
+    },
+  ],
+};
+
 const TEST_CASES = {
   invalid: [
     ...basicLogicalExpressionCases,
@@ -331,6 +622,10 @@ const TEST_CASES = {
     ...jsxConditionalPatternCases,
     ...variableDeclarationTypeCases,
     ...booleanPrefixDerivedCases,
+    ...renameSuggestionCases,
+    ...renameCollisionCases,
+    ...ignoreOptionCases.invalid,
+    ...customPrefixCases.invalid,
   ],
   valid: [
     ...simpleBooleanStateCases,
@@ -339,6 +634,8 @@ const TEST_CASES = {
     ...nonJsxUsageCases,
     ...nonDerivedVariableCases,
     ...nonBooleanAndInlineCases,
+    ...ignoreOptionCases.valid,
+    ...customPrefixCases.valid,
   ],
 };
 
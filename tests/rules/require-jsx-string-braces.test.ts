@@ -83,6 +83,93 @@ const specialCharacterCases = [
   ),
 ];
 
+// Test cases for HTML entities and backslashes, which are decoded values in JSX but escapes in JavaScript
+const entityAndEscapeCases = [
+  createInvalidCase('<div title="Tom &amp; Jerry">Content</div>', '<div title={"Tom & Jerry"}>Content</div>', [
+    { attribute: 'title', value: 'Tom & Jerry' },
+  ]),
+  createInvalidCase(
+    '<div title="Say &quot;hello&quot;">Content</div>',
+    '<div title={"Say \\"hello\\""}>Content</div>',
+    [{ attribute: 'title', value: 'Say "hello"' }]
+  ),
+  createInvalidCase('<input pattern="\\d+" />', '<input pattern={"\\\\d+"} />', [
+    { attribute: 'pattern', value: '\\d+' },
+  ]),
+];
+
+// Test cases for "never" mode
+const neverModeCases = {
+  invalid: [
+    createInvalidCase(
+      '<div className={"text-center"}>Content</div>',
+      '<div className="text-center">Content</div>',
+      [{ attribute: 'className', messageId: 'disallowBraces', value: 'text-center' }],
+      { mode: 'never' }
+    ),
+    createInvalidCase(
+      "<div title={'single quotes'} data-id={`static`}>Content</div>",
+      '<div title="single quotes" data-id="static">Content</div>',
+      [
+        { attribute: 'title', messageId: 'disallowBraces', value: 'single quotes' },
+        { attribute: 'data-id', messageId: 'disallowBraces', value: 'static' },
+      ],
+      { mode: 'never' }
+    ),
+    createInvalidCase(
+      '<div title={\'Say "hello"\'}>Content</div>',
+      '<div title=\'Say "hello"\'>Content</div>',
+      [{ attribute: 'title', messageId: 'disallowBraces', value: 'Say "hello"' }],
+      { mode: 'never' }
+    ),
+    createInvalidCase(
+      '<div title={"Tom & Jerry"}>Content</div>',
+      '<div title="Tom & Jerry">Content</div>',
+      [{ attribute: 'title', messageId: 'disallowBraces', value: 'Tom & Jerry' }],
+      { mode: 'never' }
+    ),
+  ],
+  valid: [
+    { code: '<div className="text-center">Content</div>', options: [{ mode: 'never' as const }] },
+    { code: '<div title={"Line\\nbreak"}>Content</div>', options: [{ mode: 'never' as const }] },
+    { code: '<div title={"Say \\"hi\\""}>Content</div>', options: [{ mode: 'never' as const }] },
+    { code: '<div title={"&amp; is an entity"}>Content</div>', options: [{ mode: 'never' as const }] },
+    { code: '<div title={`It\'s "quoted"`}>Content</div>', options: [{ mode: 'never' as const }] },
+    { code: '<div title={`Hello ${name}`}>Content</div>', options: [{ mode: 'never' as const }] },
+    { code: '<div title={label}>Content</div>', options: [{ mode: 'never' as const }] },
+  ],
+};
+
+// Test cases for per-attribute overrides
+const overrideCases = {
+  invalid: [
+    createInvalidCase(
+      '<div className="container" data-testid={"card"}>Content</div>',
+      '<div className={"container"} data-testid="card">Content</div>',
+      [
+        { attribute: 'className', value: 'container' },
+        { attribute: 'data-testid', messageId: 'disallowBraces', value: 'card' },
+      ],
+      { overrides: { 'data-testid': 'never' } }
+    ),
+    createInvalidCase(
+      '<div className="container" title={"Card"}>Content</div>',
+      '<div className={"container"} title="Card">Content</div>',
+      [
+        { attribute: 'className', value: 'container' },
+        { attribute: 'title', messageId: 'disallowBraces', value: 'Card' },
+      ],
+      { mode: 'never', overrides: { className: 'always' } }
+    ),
+  ],
+  valid: [
+    {
+      code: '<div className={"container"} data-testid="card">Content</div>',
+      options: [{ mode: 'never' as const, overrides: { className: 'always' as const } }],
+    },
+  ],
+};
+
 // Test cases for strings already wrapped in braces (should be valid)
 const alreadyBracedCases = [
   createValidCase('<div className={"text-center"}>Content</div>'),
@@ -120,8 +207,18 @@ const TEST_CASES = {
     ...namespacedAttributeCases,
     ...multilineStringCases,
     ...specialCharacterCases,
+    ...entityAndEscapeCases,
+    ...neverModeCases.invalid,
+    ...overrideCases.invalid,
+  ],
+  valid: [
+    ...alreadyBracedCases,
+    ...nonStringValueCases,
+    ...noAttributeCases,
+    ...validMultilineCases,
+    ...neverModeCases.valid,
+    ...overrideCases.valid,
   ],
-  valid: [...alreadyBracedCases, ...nonStringValueCases, ...noAttributeCases, ...validMultilineCases],
 };
 
 const ruleTester = new RuleTester(PARSER_CONFIG);